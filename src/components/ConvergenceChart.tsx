@@ -0,0 +1,52 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { ConvergencePoint } from '@/utils/monteCarlo';
+
+interface ConvergenceChartProps {
+  convergence: ConvergencePoint[];
+}
+
+export const ConvergenceChart: React.FC<ConvergenceChartProps> = ({ convergence }) => {
+  // 95% confidence band around the running estimate
+  const data = convergence.map((point) => ({
+    paths: point.paths,
+    premium: Number(point.premium.toFixed(4)),
+    upper: Number((point.premium + 1.96 * point.standardError).toFixed(4)),
+    lower: Number((point.premium - 1.96 * point.standardError).toFixed(4))
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+        <XAxis
+          dataKey="paths"
+          tickFormatter={(value) => `${Math.round(value / 1000)}k`}
+          stroke="#6B7280"
+          tick={{ fontSize: 10 }}
+        />
+        <YAxis
+          domain={['auto', 'auto']}
+          tickFormatter={(value) => `$${Number(value).toFixed(2)}`}
+          stroke="#6B7280"
+          tick={{ fontSize: 10 }}
+          width={50}
+        />
+        <Tooltip
+          formatter={(value: number) => `$${value.toFixed(4)}`}
+          labelFormatter={(label) => `${Number(label).toLocaleString()} paths`}
+          contentStyle={{ fontSize: '12px' }}
+        />
+        <Line type="monotone" dataKey="upper" name="Upper 95%" stroke="#6B7280" strokeDasharray="3 3" dot={false} strokeWidth={1} />
+        <Line type="monotone" dataKey="premium" name="Estimate" stroke="#22c55e" dot={false} strokeWidth={2} />
+        <Line type="monotone" dataKey="lower" name="Lower 95%" stroke="#6B7280" strokeDasharray="3 3" dot={false} strokeWidth={1} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
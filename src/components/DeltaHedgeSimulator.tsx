@@ -0,0 +1,253 @@
+import React, { useState } from "react";
+import { Info } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { OptionPricingInputs } from "@/utils/blackScholes";
+import {
+  HedgeSimulationRequest,
+  HedgeSimulationSettings,
+  RebalanceFrequency,
+  rebalanceFrequencies
+} from "@/utils/deltaHedging";
+import { useDeltaHedge } from "@/hooks/use-delta-hedge";
+import { HedgePnlHistogram } from "./HedgePnlHistogram";
+import { HedgePathsChart } from "./HedgePathsChart";
+import { track } from "@vercel/analytics";
+
+interface DeltaHedgeSimulatorProps {
+  inputs: OptionPricingInputs | null;  // The priced option, or null when it cannot be simulated
+  scale: number;                       // Units of the underlying the results are shown for
+  scaleLabel: string;
+}
+
+const inputClassName = "text-sm transition-all duration-200 hover:border-primary focus:border-primary";
+
+const MAX_PATHS = 5000;
+
+export const DeltaHedgeSimulator: React.FC<DeltaHedgeSimulatorProps> = ({ inputs, scale, scaleLabel }) => {
+  const [side, setSide] = useState<HedgeSimulationSettings["side"]>("long");
+  // Realized volatility in percent, following the implied volatility until edited
+  const [realizedVolatility, setRealizedVolatility] = useState<number | null>(null);
+  const [rebalanceFrequency, setRebalanceFrequency] = useState<RebalanceFrequency>("daily");
+  const [transactionCostBps, setTransactionCostBps] = useState<number>(5);
+  const [paths, setPaths] = useState<number>(1000);
+  const [seed, setSeed] = useState<number>(42);
+  const [request, setRequest] = useState<HedgeSimulationRequest | null>(null);
+  const simulation = useDeltaHedge(request);
+
+  const impliedVolatility = inputs ? Number((inputs.volatility * 100).toFixed(2)) : 0;
+  const realized = realizedVolatility ?? impliedVolatility;
+
+  // Update a numeric setting, ignoring values below its minimum
+  const handleNumberChange = (value: string, setter: (parsed: number) => void, min: number = 0) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed) && parsed >= min) {
+      setter(parsed);
+    }
+  };
+
+  const handleRun = () => {
+    if (!inputs) {
+      return;
+    }
+    setRequest({
+      inputs,
+      settings: {
+        side,
+        realizedVolatility: realized / 100,
+        rebalanceFrequency,
+        transactionCost: transactionCostBps / 10000,
+        paths: Math.min(MAX_PATHS, Math.max(1, Math.round(paths))),
+        seed
+      }
+    });
+    track('hedge_simulation_run', { side, frequency: rebalanceFrequency, paths });
+  };
+
+  const formatUsd = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value * scale).toFixed(2)}`;
+  const result = simulation.result;
+
+  return (
+    <Card className="grecian-blur w-full">
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="text-base sm:text-lg font-semibold text-foreground">
+          Delta-Hedging Simulator
+          <span className="ml-2 text-xs sm:text-sm font-normal text-muted-foreground">{scaleLabel}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <div className="option-input-group">
+            <Label className="option-label">Option Held</Label>
+            <ToggleGroup
+              type="single"
+              value={side}
+              onValueChange={(value) => value && setSide(value as HedgeSimulationSettings["side"])}
+              className="justify-start"
+            >
+              <ToggleGroupItem
+                value="long"
+                className={cn("transition-all duration-200 text-sm", side === "long" ? "bg-primary text-primary-foreground animate-scale" : "")}
+              >
+                Long
+              </ToggleGroupItem>
+              <ToggleGroupItem
+                value="short"
+                className={cn("transition-all duration-200 text-sm", side === "short" ? "bg-primary text-primary-foreground animate-scale" : "")}
+              >
+                Short
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <div className="option-input-group">
+            <div className="flex items-center gap-1">
+              <Label htmlFor="realizedVolatility" className="option-label">Realized Vol (%)</Label>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                  </TooltipTrigger>
+                  <TooltipContent className="animate-scale">
+                    <p className="max-w-xs text-xs">
+                      Volatility the price paths are simulated at. The option is priced and hedged at the
+                      implied volatility of {impliedVolatility}%, so a long option profits when realized is higher.
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
+            <Input
+              id="realizedVolatility"
+              type="number"
+              min="0.1"
+              step="1"
+              value={realized}
+              onChange={(e) => handleNumberChange(e.target.value, setRealizedVolatility, 0.1)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="option-input-group">
+            <Label className="option-label">Rebalance</Label>
+            <Select value={rebalanceFrequency} onValueChange={(value) => setRebalanceFrequency(value as RebalanceFrequency)}>
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="animate-scale">
+                {(Object.keys(rebalanceFrequencies) as RebalanceFrequency[]).map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>{rebalanceFrequencies[frequency].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="option-input-group">
+            <Label htmlFor="transactionCost" className="option-label">Cost per Trade (bp)</Label>
+            <Input
+              id="transactionCost"
+              type="number"
+              min="0"
+              step="1"
+              value={transactionCostBps}
+              onChange={(e) => handleNumberChange(e.target.value, setTransactionCostBps)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="option-input-group">
+            <Label htmlFor="hedgePaths" className="option-label">Paths</Label>
+            <Input
+              id="hedgePaths"
+              type="number"
+              min="1"
+              max={MAX_PATHS}
+              step="100"
+              value={paths}
+              onChange={(e) => handleNumberChange(e.target.value, setPaths, 1)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="option-input-group">
+            <Label htmlFor="hedgeSeed" className="option-label">Seed</Label>
+            <Input
+              id="hedgeSeed"
+              type="number"
+              step="1"
+              value={seed}
+              onChange={(e) => handleNumberChange(e.target.value, setSeed)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRun}
+          disabled={!inputs || simulation.isRunning}
+          className="w-full transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+        >
+          {simulation.isRunning ? "Simulating..." : "Run Simulation"}
+        </Button>
+        {!inputs && (
+          <p className="text-xs text-muted-foreground">
+            Available for vanilla European options priced with Black-Scholes.
+          </p>
+        )}
+        {simulation.error && (
+          <p className="text-xs text-red-600">Simulation failed: {simulation.error}</p>
+        )}
+
+        {result && (
+          <div className={cn("space-y-4 animate-fade-in", simulation.isRunning && "opacity-50")}>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-xs sm:text-sm">
+              {[
+                ["Mean hedged P&L", formatUsd(result.mean)],
+                ["Standard deviation", formatUsd(result.standardDeviation)],
+                ["5th to 95th percentile", `${formatUsd(result.percentile5)} to ${formatUsd(result.percentile95)}`],
+                ["Continuous-hedging P&L", formatUsd(result.expectedPnl)],
+                ["Average transaction costs", formatUsd(result.averageCost)],
+                ["Rebalances per path", result.rebalances.toLocaleString()]
+              ].map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-2">
+                  <span className="text-muted-foreground">{label}</span>
+                  <span className="font-medium text-right">{value}</span>
+                </div>
+              ))}
+            </div>
+            <div>
+              <p className="text-xs sm:text-sm font-medium mb-1">Hedged P&L at expiry</p>
+              <div className="w-full h-48">
+                <HedgePnlHistogram histogram={result.histogram} mean={result.mean} scale={scale} />
+              </div>
+            </div>
+            <div>
+              <p className="text-xs sm:text-sm font-medium mb-1">Sample price paths</p>
+              <div className="w-full h-48">
+                <HedgePathsChart paths={result.samplePaths} strikePrice={request?.inputs.strikePrice ?? 0} />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The continuous-hedging P&L is the option's value at the realized volatility less its value at the
+              implied volatility. Hedging less often widens the spread around it; costs pull the mean below it.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
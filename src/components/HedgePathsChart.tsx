@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { SamplePath } from '@/utils/deltaHedging';
+
+interface HedgePathsChartProps {
+  paths: SamplePath[];
+  strikePrice: number;
+}
+
+const PATH_COLORS = ['#3b82f6', '#22c55e', '#8b5cf6', '#ec4899', '#14b8a6'];
+
+export const HedgePathsChart: React.FC<HedgePathsChartProps> = ({ paths, strikePrice }) => {
+  // Every path is sampled on the same days, so they share one row per day
+  const data = (paths[0]?.days ?? []).map((day, i) => ({
+    day: Number(day.toFixed(2)),
+    ...Object.fromEntries(paths.map((path, p) => [`path${p}`, Number(path.prices[i].toFixed(2))]))
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+        <XAxis
+          dataKey="day"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(value) => `${Number(value).toFixed(0)}d`}
+          stroke="#6B7280"
+          tick={{ fontSize: 10 }}
+        />
+        <YAxis
+          domain={['auto', 'auto']}
+          tickFormatter={(value) => `$${Number(value).toLocaleString()}`}
+          stroke="#6B7280"
+          tick={{ fontSize: 10 }}
+          width={60}
+        />
+        <Tooltip
+          formatter={(value: number) => `$${value.toLocaleString()}`}
+          labelFormatter={(label) => `Day ${label}`}
+          contentStyle={{ fontSize: '12px' }}
+        />
+        <ReferenceLine
+          y={strikePrice}
+          stroke="#6B7280"
+          strokeDasharray="3 3"
+          label={{ value: 'Strike', position: 'insideTopLeft', fontSize: 11, fill: '#6B7280' }}
+        />
+        {paths.map((_, p) => (
+          <Line
+            key={p}
+            type="linear"
+            dataKey={`path${p}`}
+            name={`Path ${p + 1}`}
+            stroke={PATH_COLORS[p % PATH_COLORS.length]}
+            dot={false}
+            strokeWidth={1.5}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
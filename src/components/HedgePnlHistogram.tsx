@@ -0,0 +1,61 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { HistogramBin } from '@/utils/deltaHedging';
+
+interface HedgePnlHistogramProps {
+  histogram: HistogramBin[];
+  mean: number;
+  scale?: number; // Units of the underlying the P&L is shown for
+}
+
+export const HedgePnlHistogram: React.FC<HedgePnlHistogramProps> = ({ histogram, mean, scale = 1 }) => {
+  // Each bar sits at the middle of its bin
+  const data = histogram.map((bin) => ({
+    pnl: Number((0.5 * (bin.from + bin.to) * scale).toFixed(2)),
+    from: bin.from * scale,
+    to: bin.to * scale,
+    count: bin.count
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={data} margin={{ top: 5, right: 5, left: 0, bottom: 0 }} barCategoryGap={1}>
+        <XAxis
+          dataKey="pnl"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(value) => `$${Number(value).toLocaleString()}`}
+          stroke="#6B7280"
+          tick={{ fontSize: 10 }}
+        />
+        <YAxis
+          allowDecimals={false}
+          stroke="#6B7280"
+          tick={{ fontSize: 10 }}
+          width={40}
+        />
+        <Tooltip
+          formatter={(value: number) => [`${value} paths`, 'Count']}
+          labelFormatter={(label) => `P&L around $${Number(label).toLocaleString()}`}
+          contentStyle={{ fontSize: '12px' }}
+        />
+        <ReferenceLine
+          x={Number((mean * scale).toFixed(2))}
+          stroke="#f59e0b"
+          strokeDasharray="4 4"
+          label={{ value: 'Mean', position: 'insideTopRight', fontSize: 11, fill: '#f59e0b' }}
+        />
+        <ReferenceLine x={0} stroke="#6B7280" />
+        <Bar dataKey="count" name="Paths" fill="#3b82f6" />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
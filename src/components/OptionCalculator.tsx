@@ -1,11 +1,13 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { format } from "date-fns";
-import { Calculator, Clock, Calendar, Info, Sparkles } from "lucide-react";
+import { Calculator, Clock, Calendar, ChevronDown, Info, Sparkles } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   Popover,
@@ -30,13 +32,56 @@ import { cn } from "@/lib/utils";
 import {
   calculateOptionPremium,
   calculateGreeks,
+  calculateImpliedVolatility,
+  calculateBlack76Premium,
+  calculateBlack76Greeks,
+  calculateDigitalPremium,
+  calculateDigitalGreeks,
+  calculateHigherOrderGreeks,
   dateToTimeToExpiry,
   durationToTimeToExpiry,
+  OptionPricingInputs,
 } from "@/utils/blackScholes";
+import { calculateLatticePricing, LatticeMethod } from "@/utils/lattice";
+import { BarrierType, calculateBarrierPremium, calculateBarrierGreeks } from "@/utils/barrier";
+import { MonteCarloRequest, PathPayoff } from "@/utils/monteCarlo";
+import { calculateBarrierExpiryPayoff, PayoffStyle } from "@/utils/payoff";
+import { analyzePayoff } from "@/utils/payoffAnalytics";
+import {
+  calculateModelGreeks,
+  getDefaultModelParameters,
+  getPricingModel,
+  ModelParameterField,
+  pricingModels
+} from "@/utils/pricingModels";
+import { calculateSabrVolatility, calibrateSabr, parseSmilePoints, SabrParameters, SmilePoint } from "@/utils/sabr";
+import { toInverseGreeks, toInverseHigherOrderGreeks, toInversePayoff, toInversePremium } from "@/utils/inverse";
 import { greekDescriptions } from "@/utils/greekDescriptions";
+import { getContractSpec, getContractSpecs, roundQuantity, roundToTick } from "@/utils/contractSpecs";
+import { convertTheta, DayCountConvention, dayCountConventions, ThetaUnit, yearFraction } from "@/utils/dayCount";
+import {
+  ExpiryCycle,
+  expiryCycleLabels,
+  expiryTimeZones,
+  generateExpiryCalendar,
+  getExpirySchedule,
+  getZonedTime,
+  nextExpiry,
+  zonedTimeToDate
+} from "@/utils/expiryCalendar";
+import { createLeg, StrategyLeg } from "@/utils/strategy";
+import { createPositionId, SavedPosition } from "@/utils/portfolio";
 import { toast } from "sonner";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useMonteCarlo } from "@/hooks/use-monte-carlo";
+import { useClock } from "@/hooks/use-clock";
+import { usePortfolio } from "@/hooks/use-portfolio";
 import { PayoffGraph } from './PayoffGraph';
+import { ConvergenceChart } from './ConvergenceChart';
+import { DeltaHedgeSimulator } from './DeltaHedgeSimulator';
+import { PayoffAnalyticsPanel } from './PayoffAnalyticsPanel';
+import { SmileChart } from './SmileChart';
+import { StrategyBuilder } from './StrategyBuilder';
 import { track } from '@vercel/analytics';
 
 interface DVOLResponse {
@@ -48,16 +93,60 @@ export const OptionCalculator = () => {
   const isMobile = useIsMobile();
   
   // Form state
+  const [builderMode, setBuilderMode] = useState<"single" | "strategy">("single");
+  const [strategyLegs, setStrategyLegs] = useState<StrategyLeg[]>([]);
   const [selectedAsset, setSelectedAsset] = useState<"SELECT" | "BTC" | "ETH" | "SOL" | "ADA" | "MATIC" | "BASE" | "ARB">("SELECT");
   const [spotPrice, setSpotPrice] = useState<number>(100);
   const [strikePrice, setStrikePrice] = useState<number>(100);
   const [volatility, setVolatility] = useState<number>(100);
   const [useDVOL, setUseDVOL] = useState<boolean>(false);
+  const [showSmileEditor, setShowSmileEditor] = useState<boolean>(false);
+  const [smileText, setSmileText] = useState<string>("");
+  const [smilePoints, setSmilePoints] = useState<SmilePoint[]>([]);
+  const [sabrBeta, setSabrBeta] = useState<number>(1);
   const [dvolData, setDvolData] = useState<{ btc: number | null; eth: number | null }>({ btc: null, eth: null });
   const [dvolWs, setDvolWs] = useState<WebSocket | null>(null);
   const [riskFreeRate, setRiskFreeRate] = useState<number>(0);
+  const [dividendYield, setDividendYield] = useState<number>(0);
+  const [underlyingType, setUnderlyingType] = useState<"spot" | "futures">("spot");
+  const [inverseMode, setInverseMode] = useState<boolean>(false);
   const [optionType, setOptionType] = useState<"call" | "put">("call");
+  const [payoffStyle, setPayoffStyle] = useState<PayoffStyle>("vanilla");
+  const [cashAmount, setCashAmount] = useState<number>(100);
+  const [calculationMode, setCalculationMode] = useState<"premium" | "iv">("premium");
+  const [marketPremium, setMarketPremium] = useState<number>(10);
+  const [exerciseStyle, setExerciseStyle] = useState<"european" | "american">("european");
+  const [latticeMethod, setLatticeMethod] = useState<LatticeMethod>("binomial");
+  const [latticeSteps, setLatticeSteps] = useState<number>(200);
+  const [barrierType, setBarrierType] = useState<BarrierType | "none">("none");
+  const [barrierLevel, setBarrierLevel] = useState<number>(90);
+  const [rebate, setRebate] = useState<number>(0);
+  
+  // Position size, with results shown per contract or for the whole position
+  const [contractSpecId, setContractSpecId] = useState<string>("");
+  const [quantity, setQuantity] = useState<number>(1);
+  const [sizingView, setSizingView] = useState<"contract" | "position">("contract");
+  const { addPositions } = usePortfolio();
+  
+  // Monte Carlo state
+  const [pathPayoff, setPathPayoff] = useState<PathPayoff | "none">("none");
+  const [monteCarloPaths, setMonteCarloPaths] = useState<number>(20000);
+  const [monteCarloSteps, setMonteCarloSteps] = useState<number>(52);
+  const [monteCarloSeed, setMonteCarloSeed] = useState<number>(42);
+  const [useAntithetic, setUseAntithetic] = useState<boolean>(true);
+  const [useControlVariate, setUseControlVariate] = useState<boolean>(true);
+  const [monteCarloRequest, setMonteCarloRequest] = useState<MonteCarloRequest | null>(null);
+  
+  // Pricing model
+  const [pricingModel, setPricingModel] = useState<string>("black-scholes");
+  const [modelParams, setModelParams] = useState(getDefaultModelParameters);
+  const [pricingInputs, setPricingInputs] = useState<OptionPricingInputs | null>(null);
+  const monteCarlo = useMonteCarlo(monteCarloRequest);
   const [timeMethod, setTimeMethod] = useState<"date" | "duration">("date");
+  const [dayCount, setDayCount] = useState<DayCountConvention>("act365");
+  const [useWeekendWeighting, setUseWeekendWeighting] = useState<boolean>(false);
+  const [weekendWeight, setWeekendWeight] = useState<number>(0.5);
+  const [thetaUnit, setThetaUnit] = useState<ThetaUnit>("calendar-day");
   
   // Date expiry state
   const [expiryDate, setExpiryDate] = useState<Date>(() => {
@@ -65,16 +154,52 @@ export const OptionCalculator = () => {
     date.setDate(date.getDate() + 30); // Default to 30 days in the future
     return date;
   });
-  const [expiryHour, setExpiryHour] = useState<string>("16");
+  const [expiryHour, setExpiryHour] = useState<string>("08");
   const [expiryMinute, setExpiryMinute] = useState<string>("00");
+  const [expiryTimeZone, setExpiryTimeZone] = useState<string>("UTC");
+  // Listed expiries of the selected asset's exchange
+  const expirySchedule = getExpirySchedule(selectedAsset);
   
   // Duration expiry state
   const [hours, setHours] = useState<number>(0);
   const [minutes, setMinutes] = useState<number>(0);
   const [seconds, setSeconds] = useState<number>(0);
   
+  // Live mode reprices on a timer as time to expiry runs down
+  const [liveMode, setLiveMode] = useState<boolean>(false);
+  const [liveInterval, setLiveInterval] = useState<"second" | "minute">("second");
+  const [pageOpenedAt] = useState<number>(() => Date.now());
+  const [durationStartedAt, setDurationStartedAt] = useState<number>(() => Date.now());
+  const [liveStatus, setLiveStatus] = useState<{
+    expiresInMs: number;
+    decay: number | null;   // Change in premium from time passing alone
+  } | null>(null);
+  const clock = useClock(liveMode, liveInterval === "second" ? 1000 : 60000);
+  const lastClockRef = useRef(clock);
+  
   // Calculation results
   const [premium, setPremium] = useState<number>(0);
+  const [impliedVolatility, setImpliedVolatility] = useState<number | null>(null);
+  const [americanValuation, setAmericanValuation] = useState<{
+    europeanPremium: number;
+    earlyExercisePremium: number;
+    criticalPrice: number | null;
+  } | null>(null);
+  const [barrierVanillaPremium, setBarrierVanillaPremium] = useState<number | null>(null);
+  const [modelComparison, setModelComparison] = useState<{
+    blackScholesPremium: number;
+    impliedVolatility: number | null;
+  } | null>(null);
+  const [impliedProbability, setImpliedProbability] = useState<number | null>(null);
+  const [sabrSmile, setSabrSmile] = useState<{
+    params: SabrParameters;
+    rmse: number;
+    forwardPrice: number;
+    timeToExpiry: number;
+    strikeVolatility: number;
+  } | null>(null);
+  const [higherOrderGreeks, setHigherOrderGreeks] = useState<ReturnType<typeof calculateHigherOrderGreeks> | null>(null);
+  const [showAdvancedGreeks, setShowAdvancedGreeks] = useState<boolean>(false);
   const [greeks, setGreeks] = useState({
     delta: 0,
     gamma: 0,
@@ -285,9 +410,22 @@ export const OptionCalculator = () => {
     };
   }, [selectedAsset, useDVOL]);
   
+  // Switch between USD and coin quotes. The market premium is converted at the current price,
+  // so it stays the same share of the underlying rather than reading 10 USD as 10 BTC.
+  const changeInverseMode = (value: boolean) => {
+    if (value !== inverseMode && spotPrice > 0) {
+      setMarketPremium((current) => Number((value ? current / spotPrice : current * spotPrice).toFixed(value ? 8 : 2)));
+    }
+    setInverseMode(value);
+  };
+
   // Track asset selection
   const handleAssetSelection = (value: typeof selectedAsset) => {
     setSelectedAsset(value);
+    // Deribit BTC and ETH options are coin-margined
+    changeInverseMode(value === 'BTC' || value === 'ETH');
+    // Start from the new asset's first listed contract
+    setContractSpecId("");
     if (value !== "SELECT") {
       track('asset_selected', { asset: value });
       // Reset DVOL and set default volatility for non-BTC/ETH assets
@@ -305,17 +443,230 @@ export const OptionCalculator = () => {
     track('option_type_changed', { type: value });
   };
 
+  // Track underlying type changes
+  const handleUnderlyingTypeChange = (value: "spot" | "futures") => {
+    setUnderlyingType(value);
+    track('underlying_type_changed', { type: value });
+  };
+
+  // Track payoff style changes
+  const handlePayoffStyleChange = (value: PayoffStyle) => {
+    setPayoffStyle(value);
+    track('payoff_style_changed', { style: value });
+  };
+
+  // Track settlement currency changes
+  const handleInverseModeChange = (value: boolean) => {
+    changeInverseMode(value);
+    track('inverse_mode_changed', { inverse: value });
+  };
+
+  // Track exercise style changes
+  const handleExerciseStyleChange = (value: "european" | "american") => {
+    setExerciseStyle(value);
+    track('exercise_style_changed', { style: value });
+  };
+
+  // Track barrier type changes, placing a new barrier 10% away from spot
+  const handleBarrierTypeChange = (value: BarrierType | "none") => {
+    if (barrierType === "none" && value !== "none") {
+      setBarrierLevel(Number((spotPrice * (value.startsWith("down") ? 0.9 : 1.1)).toFixed(2)));
+    }
+    setBarrierType(value);
+    track('barrier_type_changed', { type: value });
+  };
+
+  // Track path-dependent payoff changes
+  const handlePathPayoffChange = (value: PathPayoff | "none") => {
+    setPathPayoff(value);
+    track('path_payoff_changed', { payoff: value });
+  };
+
+  // Seed a model's parameters so it prices like Black-Scholes at the current volatility
+  const matchModelToVolatility = (id: string) => {
+    const model = getPricingModel(id);
+    if (model.matchVolatility && pricingInputs) {
+      setModelParams((params) => ({ ...params, [id]: model.matchVolatility(pricingInputs, params[id]) }));
+    }
+  };
+
+  // Track pricing model changes, starting the new model from the current volatility
+  const handlePricingModelChange = (value: string) => {
+    if (value !== pricingModel) {
+      matchModelToVolatility(value);
+    }
+    setPricingModel(value);
+    track('pricing_model_changed', { model: value });
+  };
+
+  // Update a single model parameter within its schema bounds
+  const handleModelParamChange = (field: ModelParameterField, value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) {
+      const bounded = Math.min(field.max ?? Infinity, Math.max(field.min ?? -Infinity, parsed));
+      setModelParams((params) => ({
+        ...params,
+        [pricingModel]: { ...params[pricingModel], [field.key]: bounded }
+      }));
+    }
+  };
+
+  // Fit the SABR smile to the pasted quotes, or clear it
+  const handleSmileCalibrate = () => {
+    const points = parseSmilePoints(smileText);
+    if (points.length < 3) {
+      toast.error("Enter at least three strike, IV pairs to fit a smile.");
+      return;
+    }
+    setSmilePoints(points);
+    track('smile_calibrated', { points: points.length, beta: sabrBeta });
+  };
+
+  const handleSmileClear = () => {
+    setSmilePoints([]);
+    track('smile_cleared');
+  };
+
+  // Track switches between the single-option form and the strategy builder
+  const handleBuilderModeChange = (value: "single" | "strategy") => {
+    // The first leg of a new strategy is the option on the single-option form
+    if (value === "strategy" && strategyLegs.length === 0) {
+      setStrategyLegs([
+        createLeg({
+          side: "long",
+          quantity: 1,
+          type: optionType,
+          strikePrice,
+          expiryDays: Number(((pricingInputs?.timeToExpiry ?? 30 / 365) * 365).toFixed(2)),
+          volatility
+        })
+      ]);
+    }
+    setBuilderMode(value);
+    track('builder_mode_changed', { mode: value });
+  };
+
+  // Track calculation mode changes
+  const handleCalculationModeChange = (value: "premium" | "iv") => {
+    setCalculationMode(value);
+    track('calculation_mode_changed', { mode: value });
+  };
+
+  // Track day-count convention changes
+  const handleDayCountChange = (value: DayCountConvention) => {
+    setDayCount(value);
+    track('day_count_changed', { convention: value });
+  };
+
+  // Track contract and sizing view changes
+  const handleContractSpecChange = (value: string) => {
+    setContractSpecId(value);
+    track('contract_spec_changed', { asset: selectedAsset, contract: value });
+  };
+
+  const handleSizingViewChange = (value: "contract" | "position") => {
+    setSizingView(value);
+    track('sizing_view_changed', { view: value });
+  };
+
+  // Save the priced option to the portfolio as a whole position
+  const handleAddToPortfolio = (side: SavedPosition["side"]) => {
+    if (!pricingInputs) {
+      return;
+    }
+    const remainingDuration = (hours * 3600 + minutes * 60 + seconds) * 1000 - (liveMode ? Date.now() - durationStartedAt : 0);
+    addPositions([{
+      id: createPositionId(),
+      asset: portfolioAsset,
+      side,
+      quantity: positionUnits,
+      type: optionType,
+      strikePrice,
+      expiry: timeMethod === "date" ? getExpiryDateTime().getTime() : Date.now() + remainingDuration,
+      volatility: pricingInputs.volatility * 100,
+      entryPremium: premium,
+      spotPrice,
+      market: {
+        riskFreeRate: pricingInputs.riskFreeRate,
+        dividendYield: pricingInputs.dividendYield,
+        dayCount,
+        weekendWeight: dayCount === "crypto" && useWeekendWeighting ? weekendWeight : 1
+      },
+      savedAt: Date.now()
+    }]);
+    toast.success(`Added ${side} ${positionUnits} ${portfolioAsset} ${optionType} to the portfolio`);
+    track('portfolio_position_added', { asset: portfolioAsset, side, source: "single" });
+  };
+
+  // Track theta unit changes
+  const handleThetaUnitChange = (value: ThetaUnit) => {
+    setThetaUnit(value);
+    track('theta_unit_changed', { unit: value });
+  };
+
+  // Track live mode changes. A duration counts down from when live mode is switched on.
+  const handleLiveModeChange = (checked: boolean) => {
+    if (checked) {
+      setDurationStartedAt(Date.now());
+    }
+    setLiveMode(checked);
+    track('live_mode_changed', { enabled: checked, interval: liveInterval });
+  };
+
+  const handleLiveIntervalChange = (value: "second" | "minute") => {
+    setLiveInterval(value);
+    track('live_interval_changed', { interval: value });
+  };
+
+  // An edited duration starts counting down afresh
+  useEffect(() => {
+    setDurationStartedAt(Date.now());
+  }, [hours, minutes, seconds]);
+
   // Track time method changes
   const handleTimeMethodChange = (value: "date" | "duration") => {
     setTimeMethod(value as "date" | "duration");
     track('time_method_changed', { method: value });
   };
 
+  // Instant at which the entered expiry date and time fall in the selected time zone
+  const getExpiryDateTime = (timeZone: string = expiryTimeZone) =>
+    zonedTimeToDate(
+      expiryDate.getFullYear(),
+      expiryDate.getMonth(),
+      expiryDate.getDate(),
+      parseInt(expiryHour),
+      parseInt(expiryMinute),
+      timeZone
+    );
+
+  // Show an expiry instant as a date and time in the selected time zone
+  const applyExpiryDateTime = (date: Date, timeZone: string = expiryTimeZone) => {
+    const zoned = getZonedTime(date, timeZone);
+    setExpiryDate(new Date(zoned.year, zoned.month, zoned.day));
+    setExpiryHour(zoned.hour.toString().padStart(2, "0"));
+    setExpiryMinute(zoned.minute.toString().padStart(2, "0"));
+    setTimeMethod("date");
+  };
+
+  // Keep the same expiry instant when the time zone changes
+  const handleExpiryTimeZoneChange = (value: string) => {
+    applyExpiryDateTime(getExpiryDateTime(), value);
+    setExpiryTimeZone(value);
+    track('expiry_time_zone_changed', { time_zone: value });
+  };
+
+  // Track listed expiry selections
+  const handleListedExpirySelect = (value: string) => {
+    applyExpiryDateTime(new Date(Number(value)));
+    track('listed_expiry_selected', { asset: selectedAsset });
+  };
+
   // Track quick time selections
   const handleQuickTimeSelect = (duration: string) => {
     track('quick_time_selected', { duration });
     
-    const date = new Date();
+    let date = new Date();
     switch (duration) {
       case '1h':
         date.setHours(date.getHours() + 1);
@@ -335,69 +686,359 @@ export const OptionCalculator = () => {
       case '1y':
         date.setFullYear(date.getFullYear() + 1);
         break;
+      case 'daily':
+      case 'weekly':
+      case 'monthly':
+      case 'quarterly':
+        date = nextExpiry(duration, date, expirySchedule.settlementHourUtc);
+        break;
     }
-    setExpiryDate(date);
-    setExpiryHour(date.getHours().toString().padStart(2, "0"));
-    setExpiryMinute(date.getMinutes().toString().padStart(2, "0"));
-    setTimeMethod("date");
+    applyExpiryDateTime(date);
   };
 
   // Handle calculations
   useEffect(() => {
     try {
       let timeToExpiry: number;
+      // Time to expiry when the countdown began, for the decay shown in live mode
+      let startingTimeToExpiry: number;
+      let expiresAt: number;
+      // Weekend weighting only applies to 24/7 crypto time
+      const effectiveWeekendWeight = dayCount === "crypto" && useWeekendWeighting ? weekendWeight : 1;
+      // Clock ticks reprice silently, without animating or tracking the result
+      const isClockTick = clock !== lastClockRef.current;
+      lastClockRef.current = clock;
       
       if (timeMethod === "date") {
-        // Create a date object with the selected date and time
-        const expiryDateTime = new Date(expiryDate);
-        expiryDateTime.setHours(parseInt(expiryHour), parseInt(expiryMinute), 0);
-        timeToExpiry = dateToTimeToExpiry(expiryDateTime);
+        // The selected date and time are wall-clock values in the selected time zone
+        const expiryDateTime = zonedTimeToDate(
+          expiryDate.getFullYear(),
+          expiryDate.getMonth(),
+          expiryDate.getDate(),
+          parseInt(expiryHour),
+          parseInt(expiryMinute),
+          expiryTimeZone
+        );
+        timeToExpiry = dateToTimeToExpiry(expiryDateTime, dayCount, effectiveWeekendWeight);
+        startingTimeToExpiry = yearFraction(new Date(pageOpenedAt), expiryDateTime, dayCount, effectiveWeekendWeight);
+        expiresAt = expiryDateTime.getTime();
       } else {
-        timeToExpiry = durationToTimeToExpiry(hours, minutes, seconds);
+        // In live mode the duration runs down from when it started counting
+        const elapsedSeconds = liveMode ? (Date.now() - durationStartedAt) / 1000 : 0;
+        timeToExpiry = durationToTimeToExpiry(hours, minutes, seconds - elapsedSeconds, dayCount, effectiveWeekendWeight);
+        startingTimeToExpiry = durationToTimeToExpiry(hours, minutes, seconds, dayCount, effectiveWeekendWeight);
+        expiresAt = Date.now() + ((hours * 60 + minutes) * 60 + seconds - elapsedSeconds) * 1000;
+      }
+      
+      if (liveMode && timeToExpiry <= 0) {
+        setLiveStatus({ expiresInMs: 0, decay: null });
       }
       
-      // Validate inputs
+      // Validate inputs. Some models allow zero and negative underlyings or have their own volatility.
+      const model = getPricingModel(pricingModel);
+      const usesAlternativeModel = calculationMode === "premium" && model.id !== "black-scholes";
       if (
-        spotPrice <= 0 ||
-        strikePrice <= 0 ||
-        volatility <= 0 ||
-        timeToExpiry <= 0
+        (!(usesAlternativeModel && model.allowsNonPositivePrices) && (spotPrice <= 0 || strikePrice <= 0)) ||
+        timeToExpiry <= 0 ||
+        (calculationMode === "iv"
+          ? marketPremium <= 0
+          : (!usesAlternativeModel || model.usesVolatility) && volatility <= 0 && smilePoints.length === 0)
       ) {
         return; // Don't calculate with invalid inputs
       }
       
       // Convert percentage inputs to decimals for calculation
-      const volatilityDecimal = volatility / 100;
       const riskFreeRateDecimal = riskFreeRate / 100;
+      const dividendYieldDecimal = dividendYield / 100;
+      const isFutures = underlyingType === "futures";
+      let volatilityDecimal = volatility / 100;
+      
+      // Inverse options are quoted in coin, so convert the market premium to USD first
+      const marketPremiumUsd = inverseMode ? marketPremium * spotPrice : marketPremium;
+      
+      // A fitted SABR smile supplies the volatility for the option's strike
+      if (calculationMode === "premium" && smilePoints.length > 0) {
+        const forwardPrice = isFutures
+          ? spotPrice
+          : spotPrice * Math.exp((riskFreeRateDecimal - dividendYieldDecimal) * timeToExpiry);
+        const calibration = calibrateSabr(smilePoints, forwardPrice, timeToExpiry, sabrBeta);
+        if (calibration) {
+          volatilityDecimal = calculateSabrVolatility(forwardPrice, strikePrice, timeToExpiry, calibration.params);
+          setSabrSmile({ ...calibration, forwardPrice, timeToExpiry, strikeVolatility: volatilityDecimal });
+        } else {
+          setSabrSmile(null);
+        }
+      } else {
+        setSabrSmile(null);
+      }
+      
+      // In Premium → IV mode, back the volatility out of the quoted premium
+      if (calculationMode === "iv") {
+        setMonteCarloRequest(null);
+        const solvedVolatility = calculateImpliedVolatility(
+          marketPremiumUsd,
+          spotPrice,
+          strikePrice,
+          timeToExpiry,
+          riskFreeRateDecimal,
+          optionType === "call",
+          // Black-76 prices match Black-Scholes-Merton with a carry yield equal to the rate
+          isFutures ? riskFreeRateDecimal : dividendYieldDecimal
+        );
+        setImpliedVolatility(solvedVolatility);
+        if (solvedVolatility === null) {
+          setPremium(marketPremiumUsd);
+          setGreeks({ delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 });
+          setHigherOrderGreeks(null);
+          return; // Premium is outside no-arbitrage bounds
+        }
+        volatilityDecimal = solvedVolatility;
+      }
       
       // Calculate option premium
-      const optionPremium = calculateOptionPremium(
-        spotPrice,
-        strikePrice,
-        timeToExpiry,
-        volatilityDecimal,
-        riskFreeRateDecimal,
-        optionType === "call"
-      );
+      let optionPremium = calculationMode === "iv"
+        ? marketPremiumUsd
+        : isFutures
+          ? calculateBlack76Premium(
+              spotPrice,
+              strikePrice,
+              timeToExpiry,
+              volatilityDecimal,
+              riskFreeRateDecimal,
+              optionType === "call"
+            )
+          : calculateOptionPremium(
+              spotPrice,
+              strikePrice,
+              timeToExpiry,
+              volatilityDecimal,
+              riskFreeRateDecimal,
+              optionType === "call",
+              dividendYieldDecimal
+            );
       
       // Calculate Greeks
-      const optionGreeks = calculateGreeks(
+      let optionGreeks = isFutures
+        ? calculateBlack76Greeks(
+            spotPrice,
+            strikePrice,
+            timeToExpiry,
+            volatilityDecimal,
+            riskFreeRateDecimal,
+            optionType === "call"
+          )
+        : calculateGreeks(
+            spotPrice,
+            strikePrice,
+            timeToExpiry,
+            volatilityDecimal,
+            riskFreeRateDecimal,
+            optionType === "call",
+            dividendYieldDecimal
+          );
+      
+      // Market inputs shared by every registered model, also used to seed model parameters
+      const modelInputs: OptionPricingInputs = {
         spotPrice,
         strikePrice,
         timeToExpiry,
-        volatilityDecimal,
-        riskFreeRateDecimal,
-        optionType === "call"
+        volatility: volatilityDecimal,
+        riskFreeRate: riskFreeRateDecimal,
+        isCall: optionType === "call",
+        dividendYield: isFutures ? riskFreeRateDecimal : dividendYieldDecimal
+      };
+      setPricingInputs(modelInputs);
+      
+      // Alternative models replace the Black-Scholes closed form, which is kept for comparison
+      if (usesAlternativeModel) {
+        const params = modelParams[model.id];
+        const modelPremium = model.price(modelInputs, params);
+        // Black-Scholes needs positive prices to compare against
+        setModelComparison(
+          spotPrice > 0 && strikePrice > 0
+            ? {
+                blackScholesPremium: optionPremium,
+                impliedVolatility: calculateImpliedVolatility(
+                  modelPremium,
+                  spotPrice,
+                  strikePrice,
+                  timeToExpiry,
+                  riskFreeRateDecimal,
+                  optionType === "call",
+                  modelInputs.dividendYield
+                )
+              }
+            : null
+        );
+        optionPremium = modelPremium;
+        optionGreeks = calculateModelGreeks(model, modelInputs, params);
+      } else {
+        setModelComparison(null);
+      }
+      
+      // Decay is the model's price now less its price at the starting time to expiry, with all
+      // else fixed. Exotic features price differently, so it is only shown for vanilla European options.
+      if (liveMode) {
+        const decayModel = usesAlternativeModel ? model : getPricingModel("black-scholes");
+        const showsDecay =
+          calculationMode === "premium" &&
+          payoffStyle === "vanilla" && exerciseStyle === "european" && barrierType === "none" && pathPayoff === "none";
+        setLiveStatus({
+          expiresInMs: expiresAt - Date.now(),
+          decay: showsDecay
+            ? decayModel.price(modelInputs, modelParams[decayModel.id]) -
+              decayModel.price({ ...modelInputs, timeToExpiry: startingTimeToExpiry }, modelParams[decayModel.id])
+            : null
+        });
+      } else {
+        setLiveStatus(null);
+      }
+      
+      // Higher-order Greeks come from the vanilla closed form, so they only apply to vanilla European options
+      const isVanillaEuropean =
+        calculationMode === "iv" ||
+        (payoffStyle === "vanilla" && exerciseStyle === "european" && barrierType === "none" && pathPayoff === "none" && !usesAlternativeModel);
+      setHigherOrderGreeks(
+        isVanillaEuropean
+          ? calculateHigherOrderGreeks(
+              spotPrice,
+              strikePrice,
+              timeToExpiry,
+              volatilityDecimal,
+              riskFreeRateDecimal,
+              optionType === "call",
+              isFutures ? riskFreeRateDecimal : dividendYieldDecimal
+            )
+          : null
       );
       
-      // Trigger animation effect
-      setAnimatePremium(true);
+      // Digital options replace the vanilla closed form. A cash-or-nothing premium is
+      // the discounted payout times the risk-neutral probability of finishing in the money.
+      if (calculationMode === "premium" && payoffStyle !== "vanilla") {
+        optionPremium = calculateDigitalPremium(
+          spotPrice,
+          strikePrice,
+          timeToExpiry,
+          volatilityDecimal,
+          riskFreeRateDecimal,
+          optionType === "call",
+          payoffStyle,
+          cashAmount,
+          isFutures ? riskFreeRateDecimal : dividendYieldDecimal
+        );
+        optionGreeks = calculateDigitalGreeks(
+          spotPrice,
+          strikePrice,
+          timeToExpiry,
+          volatilityDecimal,
+          riskFreeRateDecimal,
+          optionType === "call",
+          payoffStyle,
+          cashAmount,
+          isFutures ? riskFreeRateDecimal : dividendYieldDecimal
+        );
+        setImpliedProbability(
+          payoffStyle === "cash-or-nothing" && cashAmount > 0
+            ? optionPremium / (cashAmount * Math.exp(-riskFreeRateDecimal * timeToExpiry))
+            : null
+        );
+      } else {
+        setImpliedProbability(null);
+      }
+      
+      // Barrier options replace the vanilla closed form, which is kept for comparison
+      if (calculationMode === "premium" && payoffStyle === "vanilla" && barrierType !== "none") {
+        setBarrierVanillaPremium(optionPremium);
+        optionPremium = calculateBarrierPremium(
+          spotPrice,
+          strikePrice,
+          timeToExpiry,
+          volatilityDecimal,
+          riskFreeRateDecimal,
+          optionType === "call",
+          barrierType,
+          barrierLevel,
+          rebate,
+          isFutures ? riskFreeRateDecimal : dividendYieldDecimal
+        );
+        optionGreeks = calculateBarrierGreeks(
+          spotPrice,
+          strikePrice,
+          timeToExpiry,
+          volatilityDecimal,
+          riskFreeRateDecimal,
+          optionType === "call",
+          barrierType,
+          barrierLevel,
+          rebate,
+          isFutures ? riskFreeRateDecimal : dividendYieldDecimal
+        );
+      } else {
+        setBarrierVanillaPremium(null);
+      }
+      
+      // American options are priced on a lattice. The tree's early-exercise premium is
+      // added to the closed-form European value, which cancels most discretisation error.
+      if (calculationMode === "premium" && exerciseStyle === "american" && payoffStyle === "vanilla" && barrierType === "none") {
+        const lattice = calculateLatticePricing(
+          spotPrice,
+          strikePrice,
+          timeToExpiry,
+          volatilityDecimal,
+          riskFreeRateDecimal,
+          optionType === "call",
+          isFutures ? riskFreeRateDecimal : dividendYieldDecimal,
+          { isAmerican: true, method: latticeMethod, steps: latticeSteps }
+        );
+        setAmericanValuation({
+          europeanPremium: optionPremium,
+          earlyExercisePremium: lattice.earlyExercisePremium,
+          criticalPrice: lattice.exerciseBoundary.length > 0 ? lattice.exerciseBoundary[0].price : null
+        });
+        optionPremium += lattice.earlyExercisePremium;
+        optionGreeks = lattice.greeks;
+      } else {
+        setAmericanValuation(null);
+      }
+      
+      // Path-dependent payoffs are simulated in a worker; the closed form stays as the vanilla reference.
+      // A clock tick leaves the running simulation alone rather than restarting it for a moment less to expiry.
+      if (calculationMode === "premium" && exerciseStyle === "european" && payoffStyle === "vanilla" && barrierType === "none" && pathPayoff !== "none") {
+        if (!isClockTick) {
+          setMonteCarloRequest({
+            inputs: {
+              spotPrice,
+              strikePrice,
+              timeToExpiry,
+              volatility: volatilityDecimal,
+              riskFreeRate: riskFreeRateDecimal,
+              isCall: optionType === "call",
+              dividendYield: isFutures ? riskFreeRateDecimal : dividendYieldDecimal
+            },
+            settings: {
+              payoff: pathPayoff,
+              paths: monteCarloPaths,
+              timeSteps: monteCarloSteps,
+              seed: monteCarloSeed,
+              antithetic: useAntithetic,
+              controlVariate: useControlVariate
+            }
+          });
+        }
+      } else {
+        setMonteCarloRequest(null);
+      }
       
       // Update state with calculation results
       setPremium(optionPremium);
       setGreeks(optionGreeks);
       
-      // Reset animation state after animation completes
+      if (isClockTick) {
+        return;
+      }
+      
+      // Trigger animation effect, resetting it after the animation completes
+      setAnimatePremium(true);
       setTimeout(() => {
         setAnimatePremium(false);
       }, 300);
@@ -412,7 +1053,17 @@ export const OptionCalculator = () => {
         track('premium_calculated', {
           asset: selectedAsset,
           option_type: optionType,
+          payoff_style: payoffStyle,
           time_method: timeMethod,
+          day_count: dayCount,
+          calculation_mode: calculationMode,
+          underlying_type: underlyingType,
+          inverse: inverseMode,
+          exercise_style: exerciseStyle,
+          path_payoff: pathPayoff,
+          barrier_type: barrierType,
+          pricing_model: pricingModel,
+          volatility_smile: smilePoints.length > 0,
           premium_percentage: (optionPremium / spotPrice * 100).toFixed(2)
         });
       }
@@ -425,16 +1076,165 @@ export const OptionCalculator = () => {
     strikePrice,
     volatility,
     riskFreeRate,
+    dividendYield,
+    underlyingType,
+    inverseMode,
     optionType,
+    payoffStyle,
+    cashAmount,
+    calculationMode,
+    marketPremium,
+    exerciseStyle,
+    latticeMethod,
+    latticeSteps,
+    barrierType,
+    barrierLevel,
+    rebate,
+    pathPayoff,
+    monteCarloPaths,
+    monteCarloSteps,
+    monteCarloSeed,
+    useAntithetic,
+    useControlVariate,
+    pricingModel,
+    modelParams,
+    smilePoints,
+    sabrBeta,
     timeMethod,
+    dayCount,
+    useWeekendWeighting,
+    weekendWeight,
     expiryDate,
     expiryHour,
     expiryMinute,
+    expiryTimeZone,
     hours,
     minutes,
-    seconds
+    seconds,
+    liveMode,
+    pageOpenedAt,
+    durationStartedAt,
+    clock,
+    selectedAsset
   ]);
   
+  // Exotic features price the option in different ways, so only one can be active at a time
+  const activeFeature =
+    payoffStyle !== "vanilla" ? "digital" :
+    exerciseStyle === "american" ? "american" :
+    barrierType !== "none" ? "barrier" :
+    pathPayoff !== "none" ? "monteCarlo" :
+    pricingModel !== "black-scholes" ? "model" :
+    null;
+  const isFeatureLocked = (feature: "digital" | "american" | "barrier" | "monteCarlo" | "model") =>
+    calculationMode === "iv" || (activeFeature !== null && activeFeature !== feature);
+  
+  // The selected model's parameter inputs, comparison with Black-Scholes and vega note. Premium → IV
+  // always solves with Black-Scholes, so only in IV → Premium mode does the model price the strategy
+  // legs. There, a model that handles zero or negative prices lifts the minimums on the spot, strike
+  // and strategy leg strike inputs, and extends the payoff charts and their analytics below zero.
+  const activeModel = getPricingModel(pricingModel);
+  const allowsNonPositivePrices = calculationMode === "premium" && activeModel.allowsNonPositivePrices === true;
+  const strategyModel = calculationMode === "premium" ? activeModel : getPricingModel("black-scholes");
+  
+  // Inverse options show premiums in coin and Greeks with the premium-adjusted delta
+  const settlementCurrency = selectedAsset !== "SELECT" ? selectedAsset : "coin";
+  const formatPremium = (usdValue: number) =>
+    inverseMode
+      ? `${toInversePremium(usdValue, spotPrice).toFixed(4)} ${settlementCurrency}`
+      : `$${usdValue.toFixed(2)}`;
+  
+  // Results are per unit of the underlying, scaled here to a contract or the whole position
+  const contractSpec = getContractSpec(selectedAsset, contractSpecId);
+  const tradableQuantity = roundQuantity(quantity, contractSpec);
+  const positionUnits = tradableQuantity * contractSpec.multiplier;
+  const sizeScale = sizingView === "position" ? positionUnits : contractSpec.multiplier;
+  const formatPosition = (usdValue: number) => formatPremium(usdValue * sizeScale);
+  const underlyingUnit = selectedAsset !== "SELECT" ? selectedAsset : "units";
+  const portfolioAsset = selectedAsset !== "SELECT" ? selectedAsset : "Custom";
+  // The portfolio and hedging simulator use Black-Scholes, so they take vanilla European options only
+  const vanillaInputs = calculationMode === "premium" && activeFeature === null ? pricingInputs : null;
+  const canAddToPortfolio = vanillaInputs !== null;
+  const sizingLabel = sizingView === "position"
+    ? `for ${tradableQuantity} contract${tradableQuantity === 1 ? "" : "s"} (${positionUnits} ${underlyingUnit})`
+    : `per contract (${contractSpec.multiplier} ${underlyingUnit})`;
+  // Venues quote the premium per unit of the underlying, in whole ticks
+  const quotedPremium = roundToTick(
+    contractSpec.tickCurrency === "coin" ? toInversePremium(premium, spotPrice) : premium,
+    contractSpec.tickSize
+  );
+  
+  // The payoff diagram and its analytics show the buyer's position at expiry. An Asian or lookback
+  // payoff depends on the whole price path, not the expiry price, so it has no analytics to show.
+  const isPathDependent = monteCarloRequest !== null && monteCarloRequest.settings.payoff !== "european";
+  const chartPremium = monteCarloRequest && monteCarlo.result ? monteCarlo.result.premium : premium;
+  const chartPayoffStyle = calculationMode === "premium" ? payoffStyle : "vanilla";
+  const chartBarrier = barrierType !== "none" && calculationMode === "premium"
+    ? { type: barrierType, level: barrierLevel, rebate }
+    : undefined;
+  // Inverse payoffs are divided by the expiry price, so they are no longer piecewise linear
+  const payoffAnalytics = analyzePayoff(
+    (price) => {
+      const payoff = calculateBarrierExpiryPayoff(price, strikePrice, optionType === "call", chartPayoffStyle, cashAmount, chartBarrier);
+      return inverseMode
+        ? sizeScale * (toInversePayoff(payoff, price) - toInversePremium(chartPremium, spotPrice))
+        : sizeScale * (payoff - chartPremium);
+    },
+    chartBarrier ? [strikePrice, chartBarrier.level] : [strikePrice],
+    spotPrice,
+    { piecewiseLinear: !inverseMode, allowNegativePrices: allowsNonPositivePrices }
+  );
+  const formatPayoff = (value: number) =>
+    inverseMode ? `${value.toFixed(4)} ${settlementCurrency}` : `$${value.toFixed(2)}`;
+  
+  // Countdown to expiry as days, hours, minutes and seconds
+  const formatCountdown = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const days = Math.floor(totalSeconds / 86400);
+    const clockTime = [Math.floor((totalSeconds % 86400) / 3600), Math.floor((totalSeconds % 3600) / 60), totalSeconds % 60]
+      .map((part) => part.toString().padStart(2, "0"))
+      .join(":");
+    return days > 0 ? `${days}d ${clockTime}` : clockTime;
+  };
+  const settledGreeks = inverseMode ? toInverseGreeks(greeks, premium, spotPrice) : greeks;
+  const settledHigherOrderGreeks = higherOrderGreeks && inverseMode
+    ? toInverseHigherOrderGreeks(higherOrderGreeks, greeks, premium, spotPrice)
+    : higherOrderGreeks;
+  // Theta is reported in the chosen unit of time
+  const displayedGreeks = Object.fromEntries(
+    Object.entries({ ...settledGreeks, theta: convertTheta(settledGreeks.theta, thetaUnit, dayCount) })
+      .map(([key, value]) => [key, value * sizeScale])
+  );
+  
+  // Render one row of the Greeks card with its description tooltip
+  const renderGreekRow = (key: string, value: number, digits: number = 4) => (
+    <div key={key} className="flex justify-between items-center">
+      <div className="flex items-center gap-2">
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="flex items-center gap-2 cursor-help">
+                <span className="text-xs sm:text-sm font-medium capitalize">{key}</span>
+                <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent side={isMobile ? "top" : "right"} className="animate-scale">
+              <p className="max-w-xs text-xs">
+                {greekDescriptions[key as keyof typeof greekDescriptions]}
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </div>
+      <span className={cn(
+        "font-medium transition-all duration-200 text-xs sm:text-sm",
+        animatePremium && "animate-scale"
+      )}>
+        {value.toFixed(digits)}
+      </span>
+    </div>
+  );
+  
   // Generate time options for select components
   const hourOptions = Array.from({ length: 24 }, (_, i) => 
     i.toString().padStart(2, "0")
@@ -475,12 +1275,40 @@ export const OptionCalculator = () => {
         </div>
       </div>
       
+      <ToggleGroup
+        type="single"
+        value={builderMode}
+        onValueChange={(value) => value && handleBuilderModeChange(value as "single" | "strategy")}
+        className="justify-start mb-4"
+      >
+        <ToggleGroupItem
+          value="single"
+          className={cn(
+            "transition-all duration-200 text-sm sm:text-base",
+            builderMode === "single" ? "bg-primary text-primary-foreground animate-scale" : ""
+          )}
+        >
+          Single Option
+        </ToggleGroupItem>
+        <ToggleGroupItem
+          value="strategy"
+          className={cn(
+            "transition-all duration-200 text-sm sm:text-base",
+            builderMode === "strategy" ? "bg-primary text-primary-foreground animate-scale" : ""
+          )}
+        >
+          Strategy
+        </ToggleGroupItem>
+      </ToggleGroup>
+      
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6 mb-6">
         {/* Input Section */}
-        <div className="col-span-1 lg:col-span-2 space-y-4 md:space-y-6">
+        <div className={cn("col-span-1 space-y-4 md:space-y-6", builderMode === "single" ? "lg:col-span-2" : "lg:col-span-3")}>
           <Card className="grecian-blur">
             <CardHeader className="pb-2 sm:pb-3">
-              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Option Parameters</CardTitle>
+              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">
+                {builderMode === "single" ? "Option Parameters" : "Market"}
+              </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
@@ -509,81 +1337,56 @@ export const OptionCalculator = () => {
                   </Select>
                 </div>
                 
-                {/* Spot Price */}
+                {/* Underlying Type */}
                 <div className="option-input-group">
-                  <Label htmlFor="spotPrice" className="option-label">
-                    Current Price ($)
-                  </Label>
-                  <Input
-                    id="spotPrice"
-                    type="number"
-                    step="0.01"
-                    min="0.01"
-                    max="1000000"
-                    value={spotPrice}
-                    onChange={(e) => 
-                      handleNumericInput(e.target.value, setSpotPrice, 0.01)
-                    }
-                    className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
-                  />
-                </div>
-                
-                {/* Strike Price */}
-                <div className="option-input-group">
-                  <Label htmlFor="strikePrice" className="option-label">
-                    Strike Price ($)
-                  </Label>
-                  <Input
-                    id="strikePrice"
-                    type="number"
-                    step="0.01"
-                    min="0.01"
-                    max="1000000"
-                    value={strikePrice}
-                    onChange={(e) => 
-                      handleNumericInput(e.target.value, setStrikePrice, 0.01)
-                    }
-                    className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
-                  />
-                </div>
-                
-                {/* Option Type */}
-                <div className="option-input-group">
-                  <Label className="option-label">Option Type</Label>
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Underlying</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Spot uses Black-Scholes-Merton on the current price. Futures uses
+                            Black-76 on the futures price, as Deribit does.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
                   <ToggleGroup
                     type="single"
-                    value={optionType}
-                    onValueChange={(value) => value && handleOptionTypeChange(value as "call" | "put")}
+                    value={underlyingType}
+                    onValueChange={(value) => value && handleUnderlyingTypeChange(value as "spot" | "futures")}
                     className="justify-start"
                   >
                     <ToggleGroupItem 
-                      value="call" 
+                      value="spot" 
                       className={cn(
                         "transition-all duration-200 text-sm sm:text-base",
-                        optionType === "call" ? "bg-primary text-primary-foreground animate-scale" : ""
+                        underlyingType === "spot" ? "bg-primary text-primary-foreground animate-scale" : ""
                       )}
                     >
-                      Call
+                      Spot
                     </ToggleGroupItem>
                     <ToggleGroupItem 
-                      value="put"
+                      value="futures"
                       className={cn(
                         "transition-all duration-200 text-sm sm:text-base",
-                        optionType === "put" ? "bg-primary text-primary-foreground animate-scale" : ""
+                        underlyingType === "futures" ? "bg-primary text-primary-foreground animate-scale" : ""
                       )}
                     >
-                      Put
+                      Futures
                     </ToggleGroupItem>
                   </ToggleGroup>
                 </div>
                 
-                {/* Implied Volatility */}
-                <div className="option-input-group">
-                  <div className="flex items-center justify-between">
+                {/* Settlement */}
+                {builderMode === "single" && selectedAsset !== "SELECT" && (
+                  <div className="option-input-group">
                     <div className="flex items-center gap-1">
-                      <Label htmlFor="volatility" className="option-label">
-                        Implied Volatility (%)
-                      </Label>
+                      <Label className="option-label">Settlement</Label>
                       <TooltipProvider>
                         <Tooltip>
                           <TooltipTrigger asChild>
@@ -591,78 +1394,548 @@ export const OptionCalculator = () => {
                           </TooltipTrigger>
                           <TooltipContent className="animate-scale">
                             <p className="max-w-xs text-xs">
-                              Implied volatility represents the expected volatility of the underlying asset.
-                              Typically ranges from 10% to 100% for most assets.
+                              Coin-margined (inverse) options are quoted and settled in the coin,
+                              as on Deribit. Delta then includes the premium paid in the coin.
                             </p>
                           </TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
                     </div>
-                    {(selectedAsset === 'BTC' || selectedAsset === 'ETH') && (
-                      <div className="flex items-center gap-2">
-                        <Label htmlFor="useDVOL" className="text-xs text-muted-foreground">
-                          Use DVOL
+                    <ToggleGroup
+                      type="single"
+                      value={inverseMode ? "coin" : "usd"}
+                      onValueChange={(value) => value && handleInverseModeChange(value === "coin")}
+                      className="justify-start"
+                    >
+                      <ToggleGroupItem 
+                        value="usd" 
+                        className={cn(
+                          "transition-all duration-200 text-sm sm:text-base",
+                          !inverseMode ? "bg-primary text-primary-foreground animate-scale" : ""
+                        )}
+                      >
+                        USD
+                      </ToggleGroupItem>
+                      <ToggleGroupItem 
+                        value="coin"
+                        className={cn(
+                          "transition-all duration-200 text-sm sm:text-base",
+                          inverseMode ? "bg-primary text-primary-foreground animate-scale" : ""
+                        )}
+                      >
+                        {selectedAsset} (inverse)
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                )}
+                
+                {/* Spot Price */}
+                <div className="option-input-group">
+                  <Label htmlFor="spotPrice" className="option-label">
+                    {underlyingType === "futures" ? "Futures Price ($)" : "Current Price ($)"}
+                  </Label>
+                  <Input
+                    id="spotPrice"
+                    type="number"
+                    step="0.01"
+                    min={allowsNonPositivePrices ? undefined : "0.01"}
+                    max="1000000"
+                    value={spotPrice}
+                    onChange={(e) => 
+                      handleNumericInput(e.target.value, setSpotPrice, allowsNonPositivePrices ? -Infinity : 0.01)
+                    }
+                    className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                  />
+                </div>
+                
+                {builderMode === "single" && (
+                  <>
+                    {/* Strike Price */}
+                    <div className="option-input-group">
+                      <Label htmlFor="strikePrice" className="option-label">
+                        Strike Price ($)
+                      </Label>
+                      <Input
+                        id="strikePrice"
+                        type="number"
+                        step="0.01"
+                        min={allowsNonPositivePrices ? undefined : "0.01"}
+                        max="1000000"
+                        value={strikePrice}
+                        onChange={(e) => 
+                          handleNumericInput(e.target.value, setStrikePrice, allowsNonPositivePrices ? -Infinity : 0.01)
+                        }
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                    </div>
+                
+                    {/* Option Type */}
+                    <div className="option-input-group">
+                      <Label className="option-label">Option Type</Label>
+                      <ToggleGroup
+                        type="single"
+                        value={optionType}
+                        onValueChange={(value) => value && handleOptionTypeChange(value as "call" | "put")}
+                        className="justify-start"
+                      >
+                        <ToggleGroupItem 
+                          value="call" 
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            optionType === "call" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          Call
+                        </ToggleGroupItem>
+                        <ToggleGroupItem 
+                          value="put"
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            optionType === "put" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          Put
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                
+                    {/* Payoff Style */}
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Payoff Style</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Digital options pay all or nothing at expiry: a fixed cash amount, or
+                                the asset itself, if the option finishes in the money.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select
+                        value={payoffStyle}
+                        onValueChange={(value) => handlePayoffStyleChange(value as PayoffStyle)}
+                        disabled={isFeatureLocked("digital")}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Select payoff" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          <SelectItem value="vanilla">Vanilla</SelectItem>
+                          <SelectItem value="cash-or-nothing">Cash-or-Nothing</SelectItem>
+                          <SelectItem value="asset-or-nothing">Asset-or-Nothing</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                
+                    {payoffStyle === "cash-or-nothing" && calculationMode === "premium" && (
+                      <div className="option-input-group">
+                        <Label htmlFor="cashAmount" className="option-label">
+                          Cash Payout ($)
                         </Label>
-                        <ToggleGroup
-                          type="single"
-                          value={useDVOL ? "on" : "off"}
-                          onValueChange={(value) => setUseDVOL(value === "on")}
-                          className="h-5 sm:h-6"
+                        <Input
+                          id="cashAmount"
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          value={cashAmount}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setCashAmount, 0.01)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    )}
+                
+                    {/* Exercise Style */}
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Exercise Style</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                European options can only be exercised at expiry. American options
+                                can be exercised at any time and are priced on a lattice.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <ToggleGroup
+                        type="single"
+                        value={exerciseStyle}
+                        onValueChange={(value) => value && handleExerciseStyleChange(value as "european" | "american")}
+                        disabled={isFeatureLocked("american")}
+                        className="justify-start"
+                      >
+                        <ToggleGroupItem 
+                          value="european" 
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            exerciseStyle === "european" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
                         >
-                          <ToggleGroupItem 
-                            value="on" 
-                            className={cn(
-                              "h-5 sm:h-6 px-2 text-xs",
-                              useDVOL ? "bg-primary text-primary-foreground" : ""
-                            )}
-                          >
-                            On
-                          </ToggleGroupItem>
-                          <ToggleGroupItem 
-                            value="off"
-                            className={cn(
-                              "h-5 sm:h-6 px-2 text-xs",
-                              !useDVOL ? "bg-primary text-primary-foreground" : ""
-                            )}
+                          European
+                        </ToggleGroupItem>
+                        <ToggleGroupItem 
+                          value="american"
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            exerciseStyle === "american" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          American
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                
+                    {/* Lattice Settings */}
+                    {exerciseStyle === "american" && calculationMode === "premium" && (
+                      <div className="option-input-group">
+                        <Label htmlFor="latticeSteps" className="option-label">
+                          Lattice
+                        </Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Select
+                            value={latticeMethod}
+                            onValueChange={(value) => setLatticeMethod(value as LatticeMethod)}
                           >
-                            Off
-                          </ToggleGroupItem>
-                        </ToggleGroup>
+                            <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                              <SelectValue placeholder="Method" />
+                            </SelectTrigger>
+                            <SelectContent className="animate-scale">
+                              <SelectItem value="binomial">Binomial</SelectItem>
+                              <SelectItem value="trinomial">Trinomial</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            id="latticeSteps"
+                            type="number"
+                            min="10"
+                            max="2000"
+                            step="10"
+                            value={latticeSteps}
+                            onChange={(e) => {
+                              const parsed = parseInt(e.target.value);
+                              if (!isNaN(parsed) && parsed >= 10 && parsed <= 2000) {
+                                setLatticeSteps(parsed);
+                              }
+                            }}
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
                       </div>
                     )}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Input
-                      id="volatility"
-                      type="number"
-                      step="any"
-                      max="1000"
-                      value={volatility || ''}
-                      onChange={(e) => {
-                        const value = e.target.value;
-                        if (value === '') {
-                          setVolatility(0);
-                        } else {
-                          const parsed = parseFloat(value);
-                          if (!isNaN(parsed) && parsed <= 1000) {
-                            setVolatility(parsed);
-                          }
+                
+                    {/* Barrier */}
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Barrier</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                A knock-out option dies if the price touches the barrier before expiry.
+                                A knock-in option only comes alive once the barrier is touched.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select
+                        value={barrierType}
+                        onValueChange={(value) => handleBarrierTypeChange(value as BarrierType | "none")}
+                        disabled={isFeatureLocked("barrier")}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Select barrier" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="down-and-out">Down-and-Out</SelectItem>
+                          <SelectItem value="down-and-in">Down-and-In</SelectItem>
+                          <SelectItem value="up-and-out">Up-and-Out</SelectItem>
+                          <SelectItem value="up-and-in">Up-and-In</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                
+                    {barrierType !== "none" && calculationMode === "premium" && (
+                      <div className="option-input-group">
+                        <Label htmlFor="barrierLevel" className="option-label">
+                          Barrier Level / Rebate ($)
+                        </Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            id="barrierLevel"
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={barrierLevel}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setBarrierLevel, 0.01)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                          <Input
+                            id="rebate"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={rebate}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setRebate)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
+                      </div>
+                    )}
+                
+                    {/* Calculation Mode */}
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Calculation Mode</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Price an option from a volatility, or enter a market premium
+                                to back out the implied volatility it reflects.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <ToggleGroup
+                        type="single"
+                        value={calculationMode}
+                        onValueChange={(value) => value && handleCalculationModeChange(value as "premium" | "iv")}
+                        className="justify-start"
+                      >
+                        <ToggleGroupItem 
+                          value="premium" 
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            calculationMode === "premium" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          IV → Premium
+                        </ToggleGroupItem>
+                        <ToggleGroupItem 
+                          value="iv"
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            calculationMode === "iv" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          Premium → IV
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                
+                    {calculationMode === "iv" ? (
+                    /* Market Premium */
+                    <div className="option-input-group">
+                      <Label htmlFor="marketPremium" className="option-label">
+                        Market Premium ({inverseMode ? settlementCurrency : "$"})
+                      </Label>
+                      <Input
+                        id="marketPremium"
+                        type="number"
+                        step={inverseMode ? "0.0001" : "0.01"}
+                        min="0"
+                        value={marketPremium}
+                        onChange={(e) => 
+                          handleNumericInput(e.target.value, setMarketPremium)
                         }
-                      }}
-                      disabled={useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH')}
-                      className={cn(
-                        "text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary",
-                        useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH') && "opacity-50"
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                    </div>
+                    ) : (
+                    /* Implied Volatility */
+                    <div className="option-input-group">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-1">
+                          <Label htmlFor="volatility" className="option-label">
+                            Implied Volatility (%)
+                          </Label>
+                          <TooltipProvider>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                              </TooltipTrigger>
+                              <TooltipContent className="animate-scale">
+                                <p className="max-w-xs text-xs">
+                                  Implied volatility represents the expected volatility of the underlying asset.
+                                  Typically ranges from 10% to 100% for most assets.
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </TooltipProvider>
+                        </div>
+                        {(selectedAsset === 'BTC' || selectedAsset === 'ETH') && (
+                          <div className="flex items-center gap-2">
+                            <Label htmlFor="useDVOL" className="text-xs text-muted-foreground">
+                              Use DVOL
+                            </Label>
+                            <ToggleGroup
+                              type="single"
+                              value={useDVOL ? "on" : "off"}
+                              onValueChange={(value) => setUseDVOL(value === "on")}
+                              className="h-5 sm:h-6"
+                            >
+                              <ToggleGroupItem 
+                                value="on" 
+                                className={cn(
+                                  "h-5 sm:h-6 px-2 text-xs",
+                                  useDVOL ? "bg-primary text-primary-foreground" : ""
+                                )}
+                              >
+                                On
+                              </ToggleGroupItem>
+                              <ToggleGroupItem 
+                                value="off"
+                                className={cn(
+                                  "h-5 sm:h-6 px-2 text-xs",
+                                  !useDVOL ? "bg-primary text-primary-foreground" : ""
+                                )}
+                              >
+                                Off
+                              </ToggleGroupItem>
+                            </ToggleGroup>
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="volatility"
+                          type="number"
+                          step="any"
+                          max="1000"
+                          value={volatility || ''}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            if (value === '') {
+                              setVolatility(0);
+                            } else {
+                              const parsed = parseFloat(value);
+                              if (!isNaN(parsed) && parsed <= 1000) {
+                                setVolatility(parsed);
+                              }
+                            }
+                          }}
+                          disabled={(useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH')) || sabrSmile !== null}
+                          className={cn(
+                            "text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary",
+                            ((useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH')) || sabrSmile !== null) && "opacity-50"
+                          )}
+                        />
+                        {useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH') && (
+                          <div className="text-xs text-muted-foreground flex items-center gap-2">
+                            <span>DVOL:</span>
+                            {getDVOLDisplay()}
+                          </div>
+                        )}
+                      </div>
+                      {sabrSmile && (
+                        <>
+                          <p className="text-xs text-muted-foreground">
+                            SABR smile: {(sabrSmile.strikeVolatility * 100).toFixed(2)}% at ${strikePrice.toLocaleString()}
+                          </p>
+                          <div className="h-24 w-full">
+                            <SmileChart
+                              points={smilePoints}
+                              params={sabrSmile.params}
+                              forwardPrice={sabrSmile.forwardPrice}
+                              timeToExpiry={sabrSmile.timeToExpiry}
+                              strikePrice={strikePrice}
+                            />
+                          </div>
+                        </>
                       )}
-                    />
-                    {useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH') && (
-                      <div className="text-xs text-muted-foreground flex items-center gap-2">
-                        <span>DVOL:</span>
-                        {getDVOLDisplay()}
+                    </div>
+                    )}
+                
+                    {/* Volatility Smile */}
+                    {calculationMode === "premium" && (
+                      <div className="option-input-group sm:col-span-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setShowSmileEditor(!showSmileEditor)}
+                          className="w-full justify-between px-0 text-xs sm:text-sm text-muted-foreground hover:text-primary"
+                        >
+                          Volatility Smile (SABR){smilePoints.length > 0 && ` · ${smilePoints.length} quotes`}
+                          <ChevronDown className={cn(
+                            "h-3 w-3 sm:h-4 sm:w-4 transition-transform duration-200",
+                            showSmileEditor && "rotate-180"
+                          )} />
+                        </Button>
+                        {showSmileEditor && (
+                          <div className="space-y-2 animate-fade-in">
+                            <Textarea
+                              id="smileQuotes"
+                              value={smileText}
+                              onChange={(e) => setSmileText(e.target.value)}
+                              placeholder={"Strike, IV (%) per line, e.g.\n90, 68\n100, 62\n110, 60"}
+                              rows={4}
+                              className="text-sm font-mono transition-all duration-200 hover:border-primary focus:border-primary"
+                            />
+                            <div className="flex items-center gap-2">
+                              <Label htmlFor="sabrBeta" className="text-xs sm:text-sm text-muted-foreground whitespace-nowrap">
+                                Beta (β)
+                              </Label>
+                              <Input
+                                id="sabrBeta"
+                                type="number"
+                                step="0.1"
+                                min="0"
+                                max="1"
+                                value={sabrBeta}
+                                onChange={(e) => {
+                                  const parsed = parseFloat(e.target.value);
+                                  if (!isNaN(parsed) && parsed >= 0 && parsed <= 1) {
+                                    setSabrBeta(parsed);
+                                  }
+                                }}
+                                className="w-20 text-sm transition-all duration-200 hover:border-primary focus:border-primary"
+                              />
+                              <Button size="sm" onClick={handleSmileCalibrate}>
+                                Calibrate
+                              </Button>
+                              {smilePoints.length > 0 && (
+                                <Button size="sm" variant="outline" onClick={handleSmileClear}>
+                                  Clear
+                                </Button>
+                              )}
+                            </div>
+                            {sabrSmile && (
+                              <p className="text-xs text-muted-foreground">
+                                α {sabrSmile.params.alpha.toFixed(4)} · ρ {sabrSmile.params.rho.toFixed(3)} · ν {sabrSmile.params.nu.toFixed(3)} · RMSE {(sabrSmile.rmse * 100).toFixed(2)}%
+                              </p>
+                            )}
+                          </div>
+                        )}
                       </div>
                     )}
-                  </div>
-                </div>
+                  </>
+                )}
                 
                 {/* Risk-Free Rate */}
                 <div className="option-input-group">
@@ -696,294 +1969,1088 @@ export const OptionCalculator = () => {
                     className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
                   />
                 </div>
+                
+                {/* Dividend/Staking Yield */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label htmlFor="dividendYield" className="option-label">
+                      Dividend/Staking Yield (%)
+                    </Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Continuous yield earned by holding the underlying, such as ETH or SOL
+                            staking rewards. Not used for futures, whose price already includes carry.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Input
+                    id="dividendYield"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={dividendYield}
+                    onChange={(e) => 
+                      handleNumericInput(e.target.value, setDividendYield)
+                    }
+                    disabled={underlyingType === "futures"}
+                    className={cn(
+                      "text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary",
+                      underlyingType === "futures" && "opacity-50"
+                    )}
+                  />
+                </div>
               </div>
             </CardContent>
           </Card>
           
-          {/* Time to Expiry Section */}
-          <Card className="grecian-blur">
-            <CardHeader className="pb-2 sm:pb-3">
-              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Time to Expiry</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="mb-4">
-                <Label className="option-label mb-2 block">Quick Select</Label>
-                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleQuickTimeSelect('1h')}
-                    className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
-                  >
-                    1 Hour
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleQuickTimeSelect('1d')}
-                    className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
-                  >
-                    1 Day
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleQuickTimeSelect('1w')}
-                    className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
-                  >
-                    1 Week
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleQuickTimeSelect('1m')}
-                    className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
-                  >
-                    1 Month
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleQuickTimeSelect('3m')}
-                    className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
-                  >
-                    3 Months
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleQuickTimeSelect('1y')}
-                    className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
-                  >
-                    1 Year
-                  </Button>
-                </div>
-              </div>
-              <Tabs
-                defaultValue="date"
-                value={timeMethod}
-                onValueChange={handleTimeMethodChange}
-              >
-                <TabsList className="mb-4">
-                  <TabsTrigger value="date" className="flex items-center gap-1.5 transition-all duration-200 text-xs sm:text-sm">
-                    <Calendar className="h-3 w-3 sm:h-4 sm:w-4" />
-                    <span>Expiry Date</span>
-                  </TabsTrigger>
-                  <TabsTrigger value="duration" className="flex items-center gap-1.5 transition-all duration-200 text-xs sm:text-sm">
-                    <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
-                    <span>Duration</span>
-                  </TabsTrigger>
-                </TabsList>
-                
-                <TabsContent value="date" className="mt-0 animate-fade-in">
-                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-                    <div className="sm:col-span-2">
-                      <Label htmlFor="expiryDate" className="option-label">
-                        Expiry Date
-                      </Label>
-                      <div className="mt-1.5">
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <Button
-                              variant="outline"
-                              className="w-full justify-start text-left font-normal transition-all duration-200 hover:border-primary text-sm sm:text-base"
-                            >
-                              <Calendar className="mr-2 h-3 w-3 sm:h-4 sm:w-4" />
-                              {expiryDate ? (
-                                format(expiryDate, "PPP")
-                              ) : (
-                                <span>Pick a date</span>
-                              )}
-                            </Button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-auto p-0 animate-scale" align="start">
-                            <CalendarComponent
-                              mode="single"
-                              selected={expiryDate}
-                              onSelect={(date) => date && setExpiryDate(date)}
-                              initialFocus
-                              disabled={(date) => date < new Date()}
-                              className={cn("p-3")}
-                            />
-                          </PopoverContent>
-                        </Popover>
+          {builderMode === "single" && (
+            <>
+              {/* Position Size Section */}
+              <Card className="grecian-blur">
+                <CardHeader className="pb-2 sm:pb-3">
+                  <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Position Size</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Contract</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Each venue sets how much of the underlying one contract covers,
+                                the smallest quantity that can be traded and the premium tick size.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
                       </div>
+                      <Select value={contractSpec.id} onValueChange={handleContractSpecChange}>
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {getContractSpecs(selectedAsset).map((spec) => (
+                            <SelectItem key={spec.id} value={spec.id}>
+                              {spec.venue} · {spec.multiplier} {underlyingUnit}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                     
-                    <div>
-                      <Label className="option-label">Expiry Time</Label>
-                      <div className="grid grid-cols-2 gap-2 mt-1.5">
-                        <Select
-                          value={expiryHour}
-                          onValueChange={setExpiryHour}
-                        >
-                          <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
-                            <SelectValue placeholder="Hour" />
-                          </SelectTrigger>
-                          <SelectContent className="animate-scale">
-                            {hourOptions.map((hour) => (
-                              <SelectItem key={hour} value={hour}>
-                                {hour}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        
-                        <Select
-                          value={expiryMinute}
-                          onValueChange={setExpiryMinute}
-                        >
-                          <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
-                            <SelectValue placeholder="Min" />
-                          </SelectTrigger>
-                          <SelectContent className="animate-scale">
-                            {minuteOptions.map((minute) => (
-                              <SelectItem key={minute} value={minute}>
-                                {minute}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                    </div>
-                  </div>
-                </TabsContent>
-                
-                <TabsContent value="duration" className="mt-0 animate-fade-in">
-                  <div className="grid grid-cols-3 gap-3">
                     <div className="option-input-group">
-                      <Label htmlFor="hours" className="option-label">
-                        Hours
+                      <Label htmlFor="quantity" className="option-label">
+                        Quantity (contracts)
                       </Label>
                       <Input
-                        id="hours"
+                        id="quantity"
                         type="number"
-                        min="0"
-                        value={hours}
-                        onChange={(e) => 
-                          handleNumericInput(e.target.value, setHours)
-                        }
+                        step={contractSpec.minSize}
+                        min={contractSpec.minSize}
+                        value={quantity}
+                        onChange={(e) => handleNumericInput(e.target.value, setQuantity)}
                         className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
                       />
+                      {tradableQuantity !== quantity && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Traded as {tradableQuantity}, in steps of {contractSpec.minSize}
+                        </p>
+                      )}
                     </div>
                     
-                    <div className="option-input-group">
-                      <Label htmlFor="minutes" className="option-label">
-                        Minutes
-                      </Label>
-                      <Input
-                        id="minutes"
-                        type="number"
-                        min="0"
-                        max="59"
-                        value={minutes}
-                        onChange={(e) => 
-                          handleNumericInput(e.target.value, setMinutes)
-                        }
-                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
-                      />
+                    <div className="option-input-group sm:col-span-2">
+                      <Label className="option-label">Show Results</Label>
+                      <ToggleGroup
+                        type="single"
+                        value={sizingView}
+                        onValueChange={(value) => value && handleSizingViewChange(value as "contract" | "position")}
+                        className="justify-start"
+                      >
+                        <ToggleGroupItem
+                          value="contract"
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            sizingView === "contract" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          Per Contract
+                        </ToggleGroupItem>
+                        <ToggleGroupItem
+                          value="position"
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            sizingView === "position" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          Whole Position
+                        </ToggleGroupItem>
+                      </ToggleGroup>
                     </div>
-                    
+                  </div>
+                  <div className="mt-3 pt-3 border-t border-border space-y-1 text-xs sm:text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Position size</span>
+                      <span className="font-medium">{positionUnits.toLocaleString(undefined, { maximumFractionDigits: 8 })} {underlyingUnit}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Notional</span>
+                      <span className="font-medium">${(positionUnits * spotPrice).toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Position premium</span>
+                      <span className="font-medium">{formatPremium(premium * positionUnits)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">
+                        Quoted price (tick {contractSpec.tickSize} {contractSpec.tickCurrency === "coin" ? settlementCurrency : "USD"})
+                      </span>
+                      <span className="font-medium">
+                        {contractSpec.tickCurrency === "coin" ? `${quotedPremium} ${settlementCurrency}` : `$${quotedPremium}`}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 mt-3">
+                    {(["long", "short"] as const).map((side) => (
+                      <Button
+                        key={side}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleAddToPortfolio(side)}
+                        disabled={!canAddToPortfolio}
+                        className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                      >
+                        {side === "long" ? "Buy" : "Sell"} to Portfolio
+                      </Button>
+                    ))}
+                  </div>
+                  {!canAddToPortfolio && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Only vanilla European options priced with Black-Scholes can be added to the portfolio.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+              
+              {/* Time to Expiry Section */}
+              <Card className="grecian-blur">
+                <CardHeader className="pb-2 sm:pb-3">
+                  <CardTitle className="text-base sm:text-lg font-semibold text-foreground">
+                    Time to Expiry
+                    <span className="ml-2 text-xs sm:text-sm font-normal text-muted-foreground">
+                      {dayCountConventions[dayCount].label}
+                      {pricingInputs && ` · ${pricingInputs.timeToExpiry.toFixed(4)} years`}
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="mb-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor="liveMode" className="option-label">Live Countdown</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Reprice as time passes. Decay is the change in premium from time alone, since the page opened
+                                for an expiry date or since the countdown started for a duration.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <ToggleGroup
+                          type="single"
+                          value={liveInterval}
+                          onValueChange={(value) => value && handleLiveIntervalChange(value as "second" | "minute")}
+                          className="h-6"
+                        >
+                          {([
+                            ["second", "1s"],
+                            ["minute", "1m"]
+                          ] as const).map(([interval, label]) => (
+                            <ToggleGroupItem
+                              key={interval}
+                              value={interval}
+                              className={cn(
+                                "h-6 px-2 text-xs",
+                                liveInterval === interval ? "bg-primary text-primary-foreground" : ""
+                              )}
+                            >
+                              {label}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                        <Switch
+                          id="liveMode"
+                          checked={liveMode}
+                          onCheckedChange={handleLiveModeChange}
+                        />
+                      </div>
+                    </div>
+                    {liveMode && liveStatus && (
+                      <div className="mt-2 space-y-1 text-xs sm:text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Expires in</span>
+                          <span className="font-medium tabular-nums">
+                            {liveStatus.expiresInMs > 0 ? formatCountdown(liveStatus.expiresInMs) : "Expired"}
+                          </span>
+                        </div>
+                        {liveStatus.decay !== null && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">
+                              Decay since {timeMethod === "date" ? "page opened" : "countdown started"}
+                            </span>
+                            <span className="font-medium tabular-nums">{formatPosition(liveStatus.decay)}</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
                     <div className="option-input-group">
-                      <Label htmlFor="seconds" className="option-label">
-                        Seconds
-                      </Label>
-                      <Input
-                        id="seconds"
-                        type="number"
-                        min="0"
-                        max="59"
-                        value={seconds}
-                        onChange={(e) => 
-                          handleNumericInput(e.target.value, setSeconds)
-                        }
-                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
-                      />
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Day Count</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                {dayCountConventions[dayCount].description}
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select
+                        value={dayCount}
+                        onValueChange={(value) => handleDayCountChange(value as DayCountConvention)}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Convention" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {(Object.keys(dayCountConventions) as DayCountConvention[]).map((convention) => (
+                            <SelectItem key={convention} value={convention}>
+                              {dayCountConventions[convention].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
+                
+                    {dayCount === "crypto" && (
+                      <div className="option-input-group">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="weekendWeight" className="option-label">
+                            Weekend Variance Weight
+                          </Label>
+                          <Switch
+                            id="useWeekendWeighting"
+                            checked={useWeekendWeighting}
+                            onCheckedChange={setUseWeekendWeighting}
+                          />
+                        </div>
+                        <Input
+                          id="weekendWeight"
+                          type="number"
+                          step="0.05"
+                          min="0"
+                          max="1"
+                          value={weekendWeight}
+                          disabled={!useWeekendWeighting}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0 && parsed <= 1) {
+                              setWeekendWeight(parsed);
+                            }
+                          }}
+                          className={cn(
+                            "text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary",
+                            !useWeekendWeighting && "opacity-50"
+                          )}
+                        />
+                      </div>
+                    )}
                   </div>
-                </TabsContent>
-              </Tabs>
-            </CardContent>
-          </Card>
-        </div>
-        
-        {/* Results Section */}
-        <div className="col-span-1 space-y-4">
-          <Card className="grecian-blur">
-            <CardHeader className="pb-2 sm:pb-3">
-              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Option Premium</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className={cn(
-                "text-xl sm:text-3xl font-bold text-primary transition-all duration-200",
-                animatePremium && "animate-scale"
-              )}>
-                ${premium.toFixed(2)}
-              </div>
-              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
-                {optionType === "call" ? "Call" : "Put"} option price
-              </p>
-              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
-                ({(premium / spotPrice * 100).toFixed(2)}% of asset price)
-              </p>
-            </CardContent>
-          </Card>
-          
-          <Card className="grecian-blur">
-            <CardHeader className="pb-2 sm:pb-3">
-              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Greeks</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2 sm:space-y-3">
-                {Object.entries(greeks).map(([key, value]) => (
-                  <div key={key} className="flex justify-between items-center">
-                    <div className="flex items-center gap-2">
+              
+                  <div className="mb-4">
+                    <Label className="option-label mb-2 block">Quick Select</Label>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleQuickTimeSelect('1h')}
+                        className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                      >
+                        1 Hour
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleQuickTimeSelect('1d')}
+                        className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                      >
+                        1 Day
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleQuickTimeSelect('1w')}
+                        className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                      >
+                        1 Week
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleQuickTimeSelect('1m')}
+                        className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                      >
+                        1 Month
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleQuickTimeSelect('3m')}
+                        className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                      >
+                        3 Months
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleQuickTimeSelect('1y')}
+                        className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                      >
+                        1 Year
+                      </Button>
+                    </div>
+                  </div>
+              
+                  <div className="mb-4">
+                    <div className="flex items-center gap-1 mb-2">
+                      <Label className="option-label">Exchange Expiries</Label>
                       <TooltipProvider>
                         <Tooltip>
                           <TooltipTrigger asChild>
-                            <div className="flex items-center gap-2 cursor-help">
-                              <span className="text-xs sm:text-sm font-medium capitalize">{key}</span>
-                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
-                            </div>
+                            <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
                           </TooltipTrigger>
-                          <TooltipContent side={isMobile ? "top" : "right"} className="animate-scale">
+                          <TooltipContent className="animate-scale">
                             <p className="max-w-xs text-xs">
-                              {greekDescriptions[key as keyof typeof greekDescriptions]}
+                              {expirySchedule.exchange} options settle at {expirySchedule.settlementHourUtc.toString().padStart(2, "0")}:00 UTC.
+                              Weeklies expire on Fridays, monthlies on the last Friday of the month and quarterlies on the last Friday of March, June, September and December.
                             </p>
                           </TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
                     </div>
-                    <span className={cn(
-                      "font-medium transition-all duration-200 text-xs sm:text-sm",
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-2">
+                      {expirySchedule.cycles.map((cycle: ExpiryCycle) => (
+                        <Button
+                          key={cycle}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleQuickTimeSelect(cycle)}
+                          className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                        >
+                          Next {expiryCycleLabels[cycle]}
+                        </Button>
+                      ))}
+                    </div>
+                    <Select value="" onValueChange={handleListedExpirySelect}>
+                      <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                        <SelectValue placeholder={selectedAsset !== "SELECT" ? `Listed ${selectedAsset} expiries` : "Listed expiries"} />
+                      </SelectTrigger>
+                      <SelectContent className="animate-scale">
+                        {generateExpiryCalendar(selectedAsset).map((expiry) => (
+                          <SelectItem key={expiry.date.getTime()} value={expiry.date.getTime().toString()}>
+                            {format(expiry.date, "EEE d MMM yyyy")} · {expiryCycleLabels[expiry.cycle]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Tabs
+                    defaultValue="date"
+                    value={timeMethod}
+                    onValueChange={handleTimeMethodChange}
+                  >
+                    <TabsList className="mb-4">
+                      <TabsTrigger value="date" className="flex items-center gap-1.5 transition-all duration-200 text-xs sm:text-sm">
+                        <Calendar className="h-3 w-3 sm:h-4 sm:w-4" />
+                        <span>Expiry Date</span>
+                      </TabsTrigger>
+                      <TabsTrigger value="duration" className="flex items-center gap-1.5 transition-all duration-200 text-xs sm:text-sm">
+                        <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
+                        <span>Duration</span>
+                      </TabsTrigger>
+                    </TabsList>
+                
+                    <TabsContent value="date" className="mt-0 animate-fade-in">
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <div className="sm:col-span-2">
+                          <Label htmlFor="expiryDate" className="option-label">
+                            Expiry Date
+                          </Label>
+                          <div className="mt-1.5">
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  className="w-full justify-start text-left font-normal transition-all duration-200 hover:border-primary text-sm sm:text-base"
+                                >
+                                  <Calendar className="mr-2 h-3 w-3 sm:h-4 sm:w-4" />
+                                  {expiryDate ? (
+                                    format(expiryDate, "PPP")
+                                  ) : (
+                                    <span>Pick a date</span>
+                                  )}
+                                </Button>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-auto p-0 animate-scale" align="start">
+                                <CalendarComponent
+                                  mode="single"
+                                  selected={expiryDate}
+                                  onSelect={(date) => date && setExpiryDate(date)}
+                                  initialFocus
+                                  disabled={(date) => date < new Date()}
+                                  className={cn("p-3")}
+                                />
+                              </PopoverContent>
+                            </Popover>
+                          </div>
+                        </div>
+                    
+                        <div>
+                          <Label className="option-label">Expiry Time</Label>
+                          <div className="grid grid-cols-2 gap-2 mt-1.5">
+                            <Select
+                              value={expiryHour}
+                              onValueChange={setExpiryHour}
+                            >
+                              <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                                <SelectValue placeholder="Hour" />
+                              </SelectTrigger>
+                              <SelectContent className="animate-scale">
+                                {hourOptions.map((hour) => (
+                                  <SelectItem key={hour} value={hour}>
+                                    {hour}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                        
+                            <Select
+                              value={expiryMinute}
+                              onValueChange={setExpiryMinute}
+                            >
+                              <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                                <SelectValue placeholder="Min" />
+                              </SelectTrigger>
+                              <SelectContent className="animate-scale">
+                                {minuteOptions.map((minute) => (
+                                  <SelectItem key={minute} value={minute}>
+                                    {minute}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                    
+                        <div className="sm:col-span-3 option-input-group">
+                          <Label className="option-label">Time Zone</Label>
+                          <Select
+                            value={expiryTimeZone}
+                            onValueChange={handleExpiryTimeZoneChange}
+                          >
+                            <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                              <SelectValue placeholder="Time zone" />
+                            </SelectTrigger>
+                            <SelectContent className="animate-scale">
+                              {expiryTimeZones.map((zone) => (
+                                <SelectItem key={zone.value} value={zone.value}>
+                                  {zone.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {expiryTimeZone !== "local" && (
+                            <p className="text-xs text-muted-foreground">
+                              {format(getExpiryDateTime(), "PPP HH:mm")} in your local time
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </TabsContent>
+                
+                    <TabsContent value="duration" className="mt-0 animate-fade-in">
+                      <div className="grid grid-cols-3 gap-3">
+                        <div className="option-input-group">
+                          <Label htmlFor="hours" className="option-label">
+                            Hours
+                          </Label>
+                          <Input
+                            id="hours"
+                            type="number"
+                            min="0"
+                            value={hours}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setHours)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
+                    
+                        <div className="option-input-group">
+                          <Label htmlFor="minutes" className="option-label">
+                            Minutes
+                          </Label>
+                          <Input
+                            id="minutes"
+                            type="number"
+                            min="0"
+                            max="59"
+                            value={minutes}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setMinutes)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
+                    
+                        <div className="option-input-group">
+                          <Label htmlFor="seconds" className="option-label">
+                            Seconds
+                          </Label>
+                          <Input
+                            id="seconds"
+                            type="number"
+                            min="0"
+                            max="59"
+                            value={seconds}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setSeconds)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
+                      </div>
+                    </TabsContent>
+                  </Tabs>
+                </CardContent>
+              </Card>
+          
+              {/* Path-Dependent Pricing Section */}
+              <Card className="grecian-blur">
+                <CardHeader className="pb-2 sm:pb-3">
+                  <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Path-Dependent Pricing</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                    <div className="option-input-group sm:col-span-2">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Payoff</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Payoffs that depend on the whole price path are priced by Monte Carlo
+                                simulation with European exercise. The vanilla option is priced in closed form.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select
+                        value={pathPayoff}
+                        onValueChange={(value) => handlePathPayoffChange(value as PathPayoff | "none")}
+                        disabled={isFeatureLocked("monteCarlo")}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Select payoff" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          <SelectItem value="none">Vanilla (closed form)</SelectItem>
+                          <SelectItem value="european">Vanilla (Monte Carlo check)</SelectItem>
+                          <SelectItem value="asian">Asian (arithmetic average)</SelectItem>
+                          <SelectItem value="lookback-fixed">Lookback (fixed strike)</SelectItem>
+                          <SelectItem value="lookback-floating">Lookback (floating strike)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                
+                    {pathPayoff !== "none" && (
+                      <>
+                        <div className="option-input-group">
+                          <Label htmlFor="monteCarloPaths" className="option-label">
+                            Paths
+                          </Label>
+                          <Input
+                            id="monteCarloPaths"
+                            type="number"
+                            min="1000"
+                            max="1000000"
+                            step="1000"
+                            value={monteCarloPaths}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setMonteCarloPaths, 1)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
+                    
+                        <div className="option-input-group">
+                          <Label htmlFor="monteCarloSteps" className="option-label">
+                            Fixings
+                          </Label>
+                          <Input
+                            id="monteCarloSteps"
+                            type="number"
+                            min="1"
+                            max="1000"
+                            value={monteCarloSteps}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setMonteCarloSteps, 1)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
+                    
+                        <div className="option-input-group">
+                          <Label htmlFor="monteCarloSeed" className="option-label">
+                            Seed
+                          </Label>
+                          <Input
+                            id="monteCarloSeed"
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={monteCarloSeed}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setMonteCarloSeed)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
+                    
+                        <div className="option-input-group justify-end space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="useAntithetic" className="text-xs sm:text-sm text-muted-foreground">
+                              Antithetic variates
+                            </Label>
+                            <Switch
+                              id="useAntithetic"
+                              checked={useAntithetic}
+                              onCheckedChange={setUseAntithetic}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="useControlVariate" className="text-xs sm:text-sm text-muted-foreground">
+                              Control variate
+                            </Label>
+                            <Switch
+                              id="useControlVariate"
+                              checked={useControlVariate}
+                              onCheckedChange={setUseControlVariate}
+                            />
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+          
+              {/* Pricing Model Section */}
+              <Card className="grecian-blur">
+                <CardHeader className="pb-2 sm:pb-3">
+                  <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Pricing Model</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                    <div className="option-input-group sm:col-span-2">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Model</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <div className="max-w-xs text-xs space-y-1">
+                                {pricingModels.map((model) => (
+                                  <p key={model.id}>{model.description}</p>
+                                ))}
+                              </div>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select
+                        value={pricingModel}
+                        onValueChange={handlePricingModelChange}
+                        disabled={isFeatureLocked("model")}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Select model" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {pricingModels.map((model) => (
+                            <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                
+                    {activeModel.parameters.map((field) => (
+                      <div key={field.key} className="option-input-group">
+                        <Label htmlFor={`${activeModel.id}-${field.key}`} className="option-label">
+                          {field.label}
+                        </Label>
+                        <Input
+                          id={`${activeModel.id}-${field.key}`}
+                          type="number"
+                          step={field.step}
+                          min={field.min}
+                          max={field.max}
+                          value={modelParams[activeModel.id][field.key]}
+                          onChange={(e) => handleModelParamChange(field, e.target.value)}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    ))}
+                
+                    {activeModel.id !== "black-scholes" && (
+                      <div className="sm:col-span-2 flex items-center justify-between gap-2">
+                        <p className="text-xs text-muted-foreground">
+                          {modelComparison && modelComparison.impliedVolatility !== null
+                            ? `Prices like ${(modelComparison.impliedVolatility * 100).toFixed(2)}% Black-Scholes volatility at this strike`
+                            : "No Black-Scholes equivalent for these inputs"}
+                        </p>
+                        {activeModel.matchVolatility && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={pricingInputs === null || calculationMode === "iv"}
+                            onClick={() => {
+                              matchModelToVolatility(activeModel.id);
+                              track('model_volatility_matched', { model: activeModel.id });
+                            }}
+                            className="whitespace-nowrap"
+                          >
+                            Match {volatility}% IV
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+        
+        {/* Results Section */}
+        {builderMode === "single" && (
+          <div className="col-span-1 space-y-4">
+            <Card className="grecian-blur">
+              <CardHeader className="pb-2 sm:pb-3">
+                <CardTitle className="text-base sm:text-lg font-semibold text-foreground">
+                  {calculationMode === "iv" ? "Implied Volatility" : "Option Premium"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {calculationMode === "iv" ? (
+                  <>
+                    <div className={cn(
+                      "text-xl sm:text-3xl font-bold text-primary transition-all duration-200",
                       animatePremium && "animate-scale"
                     )}>
-                      {value.toFixed(4)}
-                    </span>
+                      {impliedVolatility !== null ? `${(impliedVolatility * 100).toFixed(2)}%` : "N/A"}
+                    </div>
+                    <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                      {impliedVolatility !== null
+                        ? `Implied by a ${formatPremium(premium)} ${optionType} premium`
+                        : "Premium is outside no-arbitrage bounds"}
+                    </p>
+                    <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                      ({inverseMode && `$${premium.toFixed(2)}, `}{spotPrice > 0 ? `${(premium / spotPrice * 100).toFixed(2)}% of asset price` : "non-positive underlying"})
+                    </p>
+                  </>
+                ) : monteCarloRequest ? (
+                  <>
+                    <div className={cn(
+                      "text-xl sm:text-3xl font-bold text-primary transition-all duration-200",
+                      monteCarlo.isRunning && "opacity-50"
+                    )}>
+                      {monteCarlo.result ? formatPosition(monteCarlo.result.premium) : "Simulating..."}
+                    </div>
+                    <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                      {monteCarlo.error
+                        ? `Simulation failed: ${monteCarlo.error}`
+                        : monteCarlo.result
+                          ? `± $${(monteCarlo.result.standardError * sizeScale).toFixed(4)} standard error (${monteCarlo.result.paths.toLocaleString()} paths)`
+                          : "Running Monte Carlo simulation"}
+                    </p>
+                    <div className="mt-3 pt-3 border-t border-border space-y-1 text-xs sm:text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Vanilla (closed form)</span>
+                        <span className="font-medium">{formatPosition(premium)}</span>
+                      </div>
+                    </div>
+                    {monteCarlo.result && monteCarlo.result.convergence.length > 1 && (
+                      <div className="mt-3 h-24 w-full">
+                        <ConvergenceChart convergence={monteCarlo.result.convergence} />
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <div className={cn(
+                      "text-xl sm:text-3xl font-bold text-primary transition-all duration-200",
+                      animatePremium && "animate-scale"
+                    )}>
+                      {formatPosition(premium)}
+                    </div>
+                    <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                      {americanValuation ? "American " : ""}
+                      {payoffStyle === "cash-or-nothing" ? "Cash-or-nothing " : payoffStyle === "asset-or-nothing" ? "Asset-or-nothing " : ""}
+                      {optionType === "call" ? "Call" : "Put"} option price {sizingLabel}
+                    </p>
+                    <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                      ({inverseMode && `$${premium.toFixed(2)}, `}{spotPrice > 0 ? `${(premium / spotPrice * 100).toFixed(2)}% of asset price` : "non-positive underlying"})
+                    </p>
+                    {modelComparison && (
+                      <div className="mt-3 pt-3 border-t border-border space-y-1 text-xs sm:text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Black-Scholes value</span>
+                          <span className="font-medium">{formatPosition(modelComparison.blackScholesPremium)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">{activeModel.name} - Black-Scholes</span>
+                          <span className="font-medium">{formatPosition(premium - modelComparison.blackScholesPremium)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">{activeModel.name} implied vol</span>
+                          <span className="font-medium">
+                            {modelComparison.impliedVolatility !== null
+                              ? `${(modelComparison.impliedVolatility * 100).toFixed(2)}%`
+                              : "N/A"}
+                          </span>
+                        </div>
+                      </div>
+                    )}
+                    {impliedProbability !== null && (
+                      <div className="mt-3 pt-3 border-t border-border space-y-1 text-xs sm:text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Implied probability ITM</span>
+                          <span className="font-medium">{(impliedProbability * 100).toFixed(2)}%</span>
+                        </div>
+                      </div>
+                    )}
+                    {barrierVanillaPremium !== null && (
+                      <div className="mt-3 pt-3 border-t border-border space-y-1 text-xs sm:text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Vanilla value</span>
+                          <span className="font-medium">{formatPosition(barrierVanillaPremium)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Barrier discount</span>
+                          <span className="font-medium">{formatPosition(barrierVanillaPremium - premium)}</span>
+                        </div>
+                      </div>
+                    )}
+                    {americanValuation && (
+                      <div className="mt-3 pt-3 border-t border-border space-y-1 text-xs sm:text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">European value</span>
+                          <span className="font-medium">{formatPosition(americanValuation.europeanPremium)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Early-exercise premium</span>
+                          <span className="font-medium">{formatPosition(americanValuation.earlyExercisePremium)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Exercise boundary</span>
+                          <span className="font-medium">
+                            {americanValuation.criticalPrice !== null
+                              ? `$${americanValuation.criticalPrice.toFixed(2)}`
+                              : "Never optimal"}
+                          </span>
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+        
+            <Card className="grecian-blur">
+              <CardHeader className="pb-2 sm:pb-3">
+                <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Payoff Analytics</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isPathDependent ? (
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    Not applicable to {pathPayoff === "asian" ? "an Asian" : "a lookback"} payoff, which depends on
+                    the whole price path rather than the price at expiry.
+                  </p>
+                ) : (
+                  <>
+                    <PayoffAnalyticsPanel
+                      analytics={payoffAnalytics}
+                      formatValue={formatPayoff}
+                      notional={(inverseMode ? 1 : spotPrice) * sizeScale}
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      For the buyer at expiry. The seller's profit and loss are reversed.
+                    </p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+        
+            <Card className="grecian-blur">
+              <CardHeader className="pb-2 sm:pb-3">
+                <CardTitle className="text-base sm:text-lg font-semibold text-foreground">
+                  Greeks{inverseMode && ` (${settlementCurrency})`}
+                  <span className="ml-2 text-xs sm:text-sm font-normal text-muted-foreground">{sizingLabel}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 sm:space-y-3">
+                  {Object.entries(displayedGreeks).map(([key, value]) => renderGreekRow(key, value, inverseMode ? 6 : 4))}
+                </div>
+                <div className="flex items-center justify-between mt-3">
+                  <span className="text-xs text-muted-foreground">Theta per</span>
+                  <ToggleGroup
+                    type="single"
+                    value={thetaUnit}
+                    onValueChange={(value) => value && handleThetaUnitChange(value as ThetaUnit)}
+                    className="h-6"
+                  >
+                    {([
+                      ["calendar-day", "Day"],
+                      ["trading-day", "Trading day"],
+                      ["hour", "Hour"]
+                    ] as const).map(([unit, label]) => (
+                      <ToggleGroupItem
+                        key={unit}
+                        value={unit}
+                        className={cn(
+                          "h-6 px-2 text-xs",
+                          thetaUnit === unit ? "bg-primary text-primary-foreground" : ""
+                        )}
+                      >
+                        {label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                {calculationMode === "premium" && activeModel.vegaNote && (
+                  <p className="text-xs text-muted-foreground mt-2">{activeModel.vegaNote}</p>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowAdvancedGreeks(!showAdvancedGreeks)}
+                  className="w-full mt-3 justify-between px-0 text-xs sm:text-sm text-muted-foreground hover:text-primary"
+                >
+                  Advanced Greeks
+                  <ChevronDown className={cn(
+                    "h-3 w-3 sm:h-4 sm:w-4 transition-transform duration-200",
+                    showAdvancedGreeks && "rotate-180"
+                  )} />
+                </Button>
+                {showAdvancedGreeks && (
+                  <div className="space-y-2 sm:space-y-3 mt-2 animate-fade-in">
+                    {settledHigherOrderGreeks ? (
+                      Object.entries(settledHigherOrderGreeks).map(([key, value]) => renderGreekRow(key, value * sizeScale, 6))
+                    ) : (
+                      <p className="text-xs sm:text-sm text-muted-foreground">
+                        Available for vanilla European options only.
+                      </p>
+                    )}
                   </div>
-                ))}
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      {/* Payoff Diagram Section - Full Width */}
+      {builderMode === "single" ? (
+        <div className="space-y-4 md:space-y-6">
+          <Card className="grecian-blur w-full">
+            <CardHeader className="pb-2 sm:pb-3">
+              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Payoff Diagram</CardTitle>
+            </CardHeader>
+            <CardContent className="p-2 sm:p-4">
+              <div className="w-full aspect-[4/3] sm:aspect-[16/9] lg:aspect-[2/1] rounded-lg overflow-hidden">
+                <PayoffGraph
+                  spotPrice={spotPrice}
+                  strikePrice={strikePrice}
+                  premium={chartPremium}
+                  optionType={optionType}
+                  payoffStyle={chartPayoffStyle}
+                  cashAmount={cashAmount}
+                  inverseCurrency={inverseMode ? settlementCurrency : undefined}
+                  allowNegativePrices={allowsNonPositivePrices}
+                  quantity={sizeScale}
+                  breakevens={isPathDependent ? [] : payoffAnalytics.breakevens}
+                  barrier={chartBarrier}
+                />
               </div>
             </CardContent>
           </Card>
+          
+          <DeltaHedgeSimulator
+            inputs={vanillaInputs}
+            scale={sizeScale}
+            scaleLabel={`USD ${sizingLabel}`}
+          />
         </div>
-      </div>
-
-      {/* Payoff Diagram Section - Full Width */}
-      <Card className="grecian-blur w-full">
-        <CardHeader className="pb-2 sm:pb-3">
-          <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Payoff Diagram</CardTitle>
-        </CardHeader>
-        <CardContent className="p-2 sm:p-4">
-          <div className="w-full aspect-[4/3] sm:aspect-[16/9] lg:aspect-[2/1] rounded-lg overflow-hidden">
-            <PayoffGraph
-              spotPrice={spotPrice}
-              strikePrice={strikePrice}
-              premium={premium}
-              optionType={optionType}
-            />
-          </div>
-        </CardContent>
-      </Card>
+      ) : (
+        <StrategyBuilder
+          asset={portfolioAsset}
+          model={strategyModel}
+          modelParams={modelParams[strategyModel.id]}
+          allowsNonPositivePrices={allowsNonPositivePrices}
+          market={{
+            spotPrice,
+            riskFreeRate: riskFreeRate / 100,
+            // Black-76 prices match Black-Scholes-Merton with a carry yield equal to the rate
+            dividendYield: underlyingType === "futures" ? riskFreeRate / 100 : dividendYield / 100,
+            dayCount,
+            weekendWeight: dayCount === "crypto" && useWeekendWeighting ? weekendWeight : 1
+          }}
+          legs={strategyLegs}
+          onLegsChange={setStrategyLegs}
+        />
+      )}
     </div>
   );
 };
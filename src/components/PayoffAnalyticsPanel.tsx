@@ -0,0 +1,52 @@
+import React from 'react';
+import { PayoffAnalytics } from '@/utils/payoffAnalytics';
+
+interface PayoffAnalyticsPanelProps {
+  analytics: PayoffAnalytics;
+  formatValue: (value: number) => string;
+  notional: number; // Notional value of the position, in the same currency as the P&L
+}
+
+export const PayoffAnalyticsPanel: React.FC<PayoffAnalyticsPanelProps> = ({
+  analytics,
+  formatValue,
+  notional
+}) => {
+  const { breakevens, maxProfit, maxLoss, rewardToRisk } = analytics;
+
+  const rows = [
+    {
+      label: breakevens.length === 1 ? 'Breakeven' : 'Breakevens',
+      value: breakevens.length > 0
+        ? breakevens.map((price) => `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`).join(', ')
+        : 'None'
+    },
+    { label: 'Max profit', value: maxProfit !== null ? formatValue(maxProfit) : 'Unlimited' },
+    { label: 'Max loss', value: maxLoss !== null ? formatValue(maxLoss) : 'Unlimited', unboundedRisk: maxLoss === null },
+    {
+      label: 'Risk/reward',
+      value: rewardToRisk !== null
+        ? `1 : ${rewardToRisk.toFixed(2)}`
+        : maxLoss === 0 ? 'No risk' : maxProfit === null && maxLoss !== null ? 'Unlimited reward' : 'N/A'
+    },
+    {
+      // The most that can be lost, which must be set aside to hold the position
+      label: 'Capital at risk',
+      value: maxLoss !== null
+        ? `${formatValue(maxLoss)}${notional > 0 ? ` (${(maxLoss / notional * 100).toFixed(2)}% of notional)` : ''}`
+        : 'Unlimited',
+      unboundedRisk: maxLoss === null
+    }
+  ];
+
+  return (
+    <div className="space-y-1 text-xs sm:text-sm">
+      {rows.map(({ label, value, unboundedRisk }) => (
+        <div key={label} className="flex justify-between gap-2">
+          <span className="text-muted-foreground">{label}</span>
+          <span className={`font-medium text-right ${unboundedRisk ? 'text-red-600' : ''}`}>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -7,46 +7,94 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceArea,
+  ReferenceLine,
   ResponsiveContainer
 } from 'recharts';
+import { BarrierType } from '@/utils/barrier';
+import { calculateBarrierExpiryPayoff, PayoffStyle } from '@/utils/payoff';
+import { toInversePayoff, toInversePremium } from '@/utils/inverse';
 
 interface PayoffGraphProps {
   spotPrice: number;
   strikePrice: number;
   premium: number;
   optionType: 'call' | 'put';
+  payoffStyle?: PayoffStyle;
+  cashAmount?: number;
+  inverseCurrency?: string; // Coin symbol when the option is settled in the underlying
+  allowNegativePrices?: boolean; // Underlyings such as spreads and rates can go below zero
+  quantity?: number; // Units of the underlying the position covers
+  breakevens?: number[];
+  barrier?: {
+    type: BarrierType;
+    level: number;
+    rebate: number;
+  };
 }
 
 export const PayoffGraph: React.FC<PayoffGraphProps> = ({
   spotPrice,
   strikePrice,
   premium,
-  optionType
+  optionType,
+  payoffStyle = 'vanilla',
+  cashAmount = 1,
+  inverseCurrency,
+  allowNegativePrices = false,
+  quantity = 1,
+  breakevens = [],
+  barrier
 }) => {
+  // Extend the range to show more of the payoff curve, and always include the barrier
+  const halfWidth = allowNegativePrices
+    ? Math.max(Math.abs(spotPrice), Math.abs(strikePrice), 1) * 0.75
+    : spotPrice * 0.75;
+  let minPrice = allowNegativePrices ? strikePrice - halfWidth : Math.max(0, strikePrice - halfWidth);
+  let maxPrice = strikePrice + halfWidth;
+  if (barrier) {
+    minPrice = Math.max(0, Math.min(minPrice, barrier.level - spotPrice * 0.1));
+    maxPrice = Math.max(maxPrice, barrier.level + spotPrice * 0.1);
+  }
+  const isDownBarrier = barrier?.type.startsWith('down');
+  const isKnockOut = barrier?.type.endsWith('out');
+
+  // Inverse options settle the USD payoff in coin at the expiry price
+  const premiumValue = inverseCurrency ? toInversePremium(premium, spotPrice) : premium;
+  const decimals = inverseCurrency ? 6 : 2;
+  const formatValue = (value: number) =>
+    inverseCurrency ? `${value.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${inverseCurrency}` : `$${value.toLocaleString()}`;
+
+  // Option value at expiry for a given underlying price
+  const payoffAt = (price: number) =>
+    calculateBarrierExpiryPayoff(price, strikePrice, optionType === 'call', payoffStyle, cashAmount, barrier);
+
   // Generate data points for the graph
   const generateData = () => {
     const data = [];
-    // Extend the range to show more of the payoff curve
-    const minPrice = Math.max(0, strikePrice - spotPrice * 0.75);
-    const maxPrice = strikePrice + spotPrice * 0.75;
     const step = (maxPrice - minPrice) / 100; // Increase data points for smoother curves
+    const points: { price: number; value: number }[] = [];
 
     for (let price = minPrice; price <= maxPrice; price += step) {
-      let buyerPayoff = 0;
-      let sellerPayoff = 0;
+      points.push({ price, value: payoffAt(price) });
+    }
 
-      if (optionType === 'call') {
-        buyerPayoff = Math.max(0, price - strikePrice) - premium;
-        sellerPayoff = premium - Math.max(0, price - strikePrice);
-      } else {
-        buyerPayoff = Math.max(0, strikePrice - price) - premium;
-        sellerPayoff = premium - Math.max(0, strikePrice - price);
-      }
+    // Evaluate just either side of the strike and barrier so steps are drawn vertically
+    const edges = [strikePrice, barrier?.level].filter(
+      (edge): edge is number => edge !== undefined && edge > minPrice && edge < maxPrice
+    );
+    for (const edge of edges) {
+      points.push({ price: edge, value: payoffAt(edge - step * 1e-6) });
+      points.push({ price: edge, value: payoffAt(edge + step * 1e-6) });
+    }
+    points.sort((a, b) => a.price - b.price);
 
+    for (const { price, value } of points) {
+      const settledValue = inverseCurrency ? toInversePayoff(value, price) : value;
       data.push({
         price: Number(price.toFixed(2)),
-        buyerPayoff: Number(buyerPayoff.toFixed(2)),
-        sellerPayoff: Number(sellerPayoff.toFixed(2))
+        buyerPayoff: Number((quantity * (settledValue - premiumValue)).toFixed(decimals)),
+        sellerPayoff: Number((quantity * (premiumValue - settledValue)).toFixed(decimals))
       });
     }
 
@@ -63,10 +111,10 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
             Asset Price: ${Number(label).toLocaleString()}
           </p>
           <p className="text-emerald-600 font-medium mb-1 text-xs sm:text-sm">
-            Buyer Payoff: ${payload[0].value.toLocaleString()}
+            Buyer Payoff: {formatValue(payload[0].value)}
           </p>
           <p className="text-red-600 font-medium text-xs sm:text-sm">
-            Seller Payoff: ${payload[1].value.toLocaleString()}
+            Seller Payoff: {formatValue(payload[1].value)}
           </p>
         </div>
       );
@@ -88,6 +136,8 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
         <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.2} />
         <XAxis 
           dataKey="price" 
+          type="number"
+          domain={['dataMin', 'dataMax']}
           label={{ 
             value: 'Asset Price ($)', 
             position: 'insideBottom', 
@@ -105,7 +155,7 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
         />
         <YAxis 
           label={{ 
-            value: 'Payoff ($)', 
+            value: inverseCurrency ? `Payoff (${inverseCurrency})` : 'Payoff ($)', 
             angle: -90, 
             position: 'insideLeft',
             offset: 0,
@@ -115,7 +165,7 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
               fill: '#6B7280'
             }
           }}
-          tickFormatter={(value) => `$${value}`}
+          tickFormatter={(value) => inverseCurrency ? `${value}` : `$${value}`}
           stroke="#6B7280"
           tick={{ fontSize: 11 }}
           tickMargin={5}
@@ -132,8 +182,52 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
             fontSize: '12px'
           }}
         />
+        {barrier && (
+          <ReferenceArea
+            x1={isDownBarrier ? minPrice : barrier.level}
+            x2={isDownBarrier ? barrier.level : maxPrice}
+            fill={isKnockOut ? '#ef4444' : '#3b82f6'}
+            fillOpacity={0.08}
+            ifOverflow="extendDomain"
+            label={{
+              value: isKnockOut ? 'Knocked out' : 'Knocked in',
+              position: 'insideTop',
+              fontSize: 11,
+              fill: '#6B7280'
+            }}
+          />
+        )}
+        {barrier && (
+          <ReferenceLine
+            x={barrier.level}
+            stroke="#f59e0b"
+            strokeDasharray="4 4"
+            strokeWidth={2}
+            ifOverflow="extendDomain"
+            label={{
+              value: `Barrier $${barrier.level.toLocaleString()}`,
+              position: 'insideTopRight',
+              fontSize: 11,
+              fill: '#f59e0b'
+            }}
+          />
+        )}
+        {breakevens.filter((price) => price >= minPrice && price <= maxPrice).map((price) => (
+          <ReferenceLine
+            key={price}
+            x={Number(price.toFixed(2))}
+            stroke="#8b5cf6"
+            strokeDasharray="2 2"
+            label={{
+              value: `BE $${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+              position: 'insideBottomRight',
+              fontSize: 11,
+              fill: '#8b5cf6'
+            }}
+          />
+        ))}
         <Line
-          type="monotone"
+          type="linear"
           dataKey="buyerPayoff"
           stroke="#22c55e"
           name="Buyer Payoff"
@@ -142,7 +236,7 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
           activeDot={{ r: 6, stroke: '#15803d', strokeWidth: 2 }}
         />
         <Line
-          type="monotone"
+          type="linear"
           dataKey="sellerPayoff"
           stroke="#ef4444"
           name="Seller Payoff"
@@ -0,0 +1,316 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Briefcase, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  expiryBuckets,
+  getExpiryBucket,
+  noExpiryBucket,
+  PositionRisk,
+  RiskMeasures,
+  SavedPosition,
+  sumRiskMeasures,
+  valuePosition
+} from "@/utils/portfolio";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { useClock } from "@/hooks/use-clock";
+import { track } from "@vercel/analytics";
+
+const inputClassName = "text-sm transition-all duration-200 hover:border-primary focus:border-primary";
+
+const positionTypeLabels: Record<SavedPosition["type"], string> = {
+  call: "Call",
+  put: "Put",
+  spot: "Spot",
+  future: "Future",
+  perpetual: "Perpetual"
+};
+
+// Measures shown in every risk table
+const riskColumns: { key: keyof RiskMeasures; label: string }[] = [
+  { key: "value", label: "Value" },
+  { key: "pnl", label: "P&L" },
+  { key: "delta", label: "Delta" },
+  { key: "gamma", label: "Gamma (1%)" },
+  { key: "vega", label: "Vega (1%)" },
+  { key: "theta", label: "Theta (day)" }
+];
+
+export const PortfolioDashboard: React.FC = () => {
+  const { positions, removePosition, clearPositions } = usePortfolio();
+  const [units, setUnits] = useState<"usd" | "asset">("usd");
+  // Prices to revalue each underlying at, defaulting to the price when it was last saved
+  const [spotPrices, setSpotPrices] = useState<Record<string, number>>({});
+  // Revalue every minute as expiries draw closer
+  const now = useClock(true, 60000);
+
+  const assets = Array.from(new Set(positions.map((position) => position.asset))).sort();
+  const spotOf = (asset: string) =>
+    spotPrices[asset] ??
+    [...positions].sort((a, b) => b.savedAt - a.savedAt).find((position) => position.asset === asset)?.spotPrice ??
+    0;
+
+  const rows = positions.map((position) => ({
+    position,
+    risk: valuePosition(position, spotOf(position.asset), now),
+    bucket: getExpiryBucket(position, now)
+  }));
+  const totalUsd = sumRiskMeasures(rows.map(({ risk }) => risk.usd));
+
+  const exposures = assets.map((asset) => {
+    const assetRows = rows.filter(({ position }) => position.asset === asset);
+    return {
+      asset,
+      count: assetRows.length,
+      usd: sumRiskMeasures(assetRows.map(({ risk }) => risk.usd)),
+      inAsset: sumRiskMeasures(assetRows.map(({ risk }) => risk.asset))
+    };
+  });
+
+  const buckets = [...expiryBuckets, noExpiryBucket]
+    .map((bucket) => {
+      const bucketRows = rows.filter((row) => row.bucket.id === bucket.id);
+      return { bucket, count: bucketRows.length, usd: sumRiskMeasures(bucketRows.map(({ risk }) => risk.usd)) };
+    })
+    .filter(({ count }) => count > 0);
+
+  const handleSpotChange = (asset: string, value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed) && parsed > 0) {
+      setSpotPrices({ ...spotPrices, [asset]: parsed });
+    }
+  };
+
+  const handleUnitsChange = (value: "usd" | "asset") => {
+    setUnits(value);
+    track('portfolio_units_changed', { units: value });
+  };
+
+  const handleRemove = (id: string) => {
+    removePosition(id);
+    track('portfolio_position_removed', { positions: positions.length - 1 });
+  };
+
+  const handleClear = () => {
+    clearPositions();
+    track('portfolio_cleared', { positions: positions.length });
+  };
+
+  const formatUsd = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  const formatAsset = (value: number, asset: string) => `${value.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${asset}`;
+  const formatRisk = (risk: PositionRisk, key: keyof RiskMeasures, asset: string) =>
+    units === "usd" ? formatUsd(risk.usd[key]) : formatAsset(risk.asset[key], asset);
+  const signClass = (value: number) => (value > 0 ? "text-emerald-600" : value < 0 ? "text-red-600" : "");
+
+  const describePosition = (position: SavedPosition) =>
+    `${position.side === "long" ? "Long" : "Short"} ${position.quantity} ${position.asset} ` +
+    (position.type === "call" || position.type === "put"
+      ? `$${position.strikePrice.toLocaleString()} ${positionTypeLabels[position.type]}`
+      : `${positionTypeLabels[position.type]} @ $${position.strikePrice.toLocaleString()}`);
+
+  if (positions.length === 0) {
+    return (
+      <Card className="grecian-blur">
+        <CardContent className="py-10 text-center space-y-2">
+          <Briefcase className="h-8 w-8 mx-auto text-muted-foreground" />
+          <p className="text-sm sm:text-base font-medium">No saved positions</p>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            Price an option or build a strategy in the calculator, then add it to the portfolio.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        {riskColumns.map(({ key, label }) => (
+          <Card key={key} className="grecian-blur">
+            <CardHeader className="pb-1 sm:pb-2">
+              <CardTitle className="text-xs sm:text-sm font-medium text-muted-foreground">
+                {key === "delta" ? "Delta ($)" : label}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={cn("text-lg sm:text-2xl font-bold", key === "pnl" ? signClass(totalUsd.pnl) : "text-primary")}>
+                {formatUsd(totalUsd[key])}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="grecian-blur">
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Net Exposure by Underlying</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Underlying</TableHead>
+                <TableHead className="text-right">Price ($)</TableHead>
+                <TableHead className="text-right">Delta</TableHead>
+                <TableHead className="text-right">Delta ($)</TableHead>
+                <TableHead className="text-right">Gamma (1%)</TableHead>
+                <TableHead className="text-right">Vega ($)</TableHead>
+                <TableHead className="text-right">Theta ($)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {exposures.map(({ asset, count, usd, inAsset }) => (
+                <TableRow key={asset}>
+                  <TableCell className="font-medium">
+                    {asset}
+                    <span className="ml-1 text-xs text-muted-foreground">({count})</span>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Label htmlFor={`spot-${asset}`} className="sr-only">{asset} price</Label>
+                    <Input
+                      id={`spot-${asset}`}
+                      type="number"
+                      min="0"
+                      value={spotOf(asset)}
+                      onChange={(e) => handleSpotChange(asset, e.target.value)}
+                      className={cn(inputClassName, "h-8 w-28 ml-auto text-right")}
+                    />
+                  </TableCell>
+                  <TableCell className={cn("text-right", signClass(inAsset.delta))}>{formatAsset(inAsset.delta, asset)}</TableCell>
+                  <TableCell className={cn("text-right", signClass(usd.delta))}>{formatUsd(usd.delta)}</TableCell>
+                  <TableCell className="text-right">{formatAsset(inAsset.gamma, asset)}</TableCell>
+                  <TableCell className="text-right">{formatUsd(usd.vega)}</TableCell>
+                  <TableCell className="text-right">{formatUsd(usd.theta)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground mt-2">
+            Edit a price to revalue every position on that underlying. Gamma is the change in delta for a 1% move.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="grecian-blur">
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Risk by Expiry (USD)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Expiry</TableHead>
+                <TableHead className="text-right">Positions</TableHead>
+                {riskColumns.map(({ key, label }) => (
+                  <TableHead key={key} className="text-right">{label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {buckets.map(({ bucket, count, usd }) => (
+                <TableRow key={bucket.id}>
+                  <TableCell className="font-medium">{bucket.label}</TableCell>
+                  <TableCell className="text-right">{count}</TableCell>
+                  {riskColumns.map(({ key }) => (
+                    <TableCell key={key} className={cn("text-right", key === "pnl" && signClass(usd.pnl))}>
+                      {formatUsd(usd[key])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="grecian-blur">
+        <CardHeader className="pb-2 sm:pb-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Positions</CardTitle>
+            <div className="flex items-center gap-2">
+              <ToggleGroup
+                type="single"
+                value={units}
+                onValueChange={(value) => value && handleUnitsChange(value as "usd" | "asset")}
+                className="h-6"
+              >
+                <ToggleGroupItem
+                  value="usd"
+                  className={cn("h-6 px-2 text-xs", units === "usd" ? "bg-primary text-primary-foreground" : "")}
+                >
+                  USD
+                </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="asset"
+                  className={cn("h-6 px-2 text-xs", units === "asset" ? "bg-primary text-primary-foreground" : "")}
+                >
+                  Per asset
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleClear}
+                className="h-6 px-2 text-xs transition-all duration-200 hover:border-destructive hover:text-destructive"
+              >
+                Clear all
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Position</TableHead>
+                <TableHead>Expiry</TableHead>
+                {riskColumns.map(({ key, label }) => (
+                  <TableHead key={key} className="text-right">{label}</TableHead>
+                ))}
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ position, risk, bucket }) => (
+                <TableRow key={position.id}>
+                  <TableCell className={cn("font-medium whitespace-nowrap", position.side === "long" ? "text-emerald-600" : "text-red-600")}>
+                    {describePosition(position)}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">
+                    {bucket.id === noExpiryBucket.id ? "None" : format(new Date(position.expiry), "d MMM yyyy HH:mm")}
+                  </TableCell>
+                  {riskColumns.map(({ key }) => (
+                    <TableCell key={key} className={cn("text-right whitespace-nowrap", key === "pnl" && signClass(risk.usd.pnl))}>
+                      {formatRisk(risk, key, position.asset)}
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(position.id)}
+                      className="h-7 px-2 text-muted-foreground hover:text-destructive"
+                      aria-label="Remove position"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground mt-2">
+            Options are revalued with Black-Scholes at the volatility they were saved with. Spot and futures
+            positions show their profit or loss from the entry price as their value.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
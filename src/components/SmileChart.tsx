@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { calculateSabrVolatility, SabrParameters, SmilePoint } from '@/utils/sabr';
+
+interface SmileChartProps {
+  points: SmilePoint[];
+  params: SabrParameters;
+  forwardPrice: number;
+  timeToExpiry: number;
+  strikePrice: number;
+}
+
+export const SmileChart: React.FC<SmileChartProps> = ({
+  points,
+  params,
+  forwardPrice,
+  timeToExpiry,
+  strikePrice
+}) => {
+  // Fitted curve across the quoted strikes, widened to include the option's strike
+  const strikes = points.map((point) => point.strike);
+  const minStrike = Math.min(...strikes, strikePrice) * 0.95;
+  const maxStrike = Math.max(...strikes, strikePrice) * 1.05;
+  const step = (maxStrike - minStrike) / 50;
+
+  const curve = Array.from({ length: 51 }, (_, i) => {
+    const strike = minStrike + i * step;
+    return {
+      strike: Number(strike.toFixed(2)),
+      fitted: Number((calculateSabrVolatility(forwardPrice, strike, timeToExpiry, params) * 100).toFixed(2))
+    };
+  });
+  const quotes = points.map((point) => ({
+    strike: point.strike,
+    market: Number((point.volatility * 100).toFixed(2))
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <ComposedChart margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+        <XAxis
+          dataKey="strike"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(value) => `$${Number(value).toLocaleString()}`}
+          stroke="#6B7280"
+          tick={{ fontSize: 10 }}
+        />
+        <YAxis
+          domain={['auto', 'auto']}
+          tickFormatter={(value) => `${Number(value).toFixed(0)}%`}
+          stroke="#6B7280"
+          tick={{ fontSize: 10 }}
+          width={40}
+        />
+        <Tooltip
+          formatter={(value: number) => `${value.toFixed(2)}%`}
+          labelFormatter={(label) => `Strike $${Number(label).toLocaleString()}`}
+          contentStyle={{ fontSize: '12px' }}
+        />
+        <ReferenceLine x={strikePrice} stroke="#f59e0b" strokeDasharray="3 3" />
+        <Line data={curve} type="monotone" dataKey="fitted" name="SABR" stroke="#22c55e" dot={false} strokeWidth={2} />
+        <Scatter data={quotes} dataKey="market" name="Market" fill="#3b82f6" />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
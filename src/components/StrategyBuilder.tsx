@@ -0,0 +1,487 @@
+import React, { useState } from "react";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { MS_PER_DAY } from "@/utils/dayCount";
+import { analyzePayoff } from "@/utils/payoffAnalytics";
+import {
+  calculateStrategyPnl,
+  createLeg,
+  getBackExpiryDays,
+  getFrontExpiryDays,
+  hedgeToDeltaNeutral,
+  isLinearLeg,
+  StrategyLeg,
+  StrategyMarket,
+  ValuationHorizon,
+  valueStrategy
+} from "@/utils/strategy";
+import {
+  defaultTemplateParameters,
+  getStrategyTemplate,
+  strategyTemplates,
+  TemplateParameters
+} from "@/utils/strategyTemplates";
+import { PayoffAnalyticsPanel } from "./PayoffAnalyticsPanel";
+import { createPositionId } from "@/utils/portfolio";
+import { ModelParameters, PricingModel } from "@/utils/pricingModels";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { StrategyPayoffGraph } from "./StrategyPayoffGraph";
+import { toast } from "sonner";
+import { track } from "@vercel/analytics";
+
+interface StrategyBuilderProps {
+  asset: string;            // Underlying symbol, for saving to the portfolio
+  market: StrategyMarket;
+  model: PricingModel;      // Model the legs are valued with
+  modelParams: ModelParameters;
+  allowsNonPositivePrices: boolean; // Whether the model prices zero and negative underlyings and strikes
+  legs: StrategyLeg[];
+  onLegsChange: (legs: StrategyLeg[]) => void;
+}
+
+const inputClassName = "text-sm transition-all duration-200 hover:border-primary focus:border-primary";
+
+export const StrategyBuilder: React.FC<StrategyBuilderProps> = ({
+  asset,
+  market,
+  model,
+  modelParams,
+  allowsNonPositivePrices,
+  legs,
+  onLegsChange
+}) => {
+  const [templateId, setTemplateId] = useState<string>(strategyTemplates[0].id);
+  const [templateParams, setTemplateParams] = useState<TemplateParameters>(defaultTemplateParameters);
+  const template = getStrategyTemplate(templateId);
+
+  // Volatility assumed at the front expiry for each later expiry, keyed by days to expiry
+  const [horizonVolatilities, setHorizonVolatilities] = useState<Record<number, number>>({});
+
+  const valuation = valueStrategy(legs, market, model, modelParams);
+  const { addPositions } = usePortfolio();
+
+  // Legs expiring later are still open at the front expiry. Their assumed volatility
+  // defaults to the current volatility of the first leg with that expiry.
+  const backExpiries = getBackExpiryDays(legs);
+  const horizon: ValuationHorizon = {
+    days: getFrontExpiryDays(legs),
+    volatilities: Object.fromEntries(
+      backExpiries.map((days) => [
+        days,
+        horizonVolatilities[days] ?? legs.find((leg) => leg.expiryDays === days)?.volatility ?? 0
+      ])
+    )
+  };
+
+  // Before the back expiries the open legs are model-priced, so the P&L curves between strikes
+  const legPremiums = valuation.legs.map((leg) => leg.premium);
+  const payoffAnalytics = analyzePayoff(
+    (price) => calculateStrategyPnl(legs, legPremiums, price, market, horizon, model, modelParams),
+    legs.filter((leg) => !isLinearLeg(leg)).map((leg) => leg.strikePrice),
+    market.spotPrice,
+    { piecewiseLinear: backExpiries.length === 0, allowNegativePrices: allowsNonPositivePrices }
+  );
+
+  const updateLeg = (id: string, changes: Partial<StrategyLeg>) => {
+    onLegsChange(legs.map((leg) => (leg.id === id ? { ...leg, ...changes } : leg)));
+  };
+
+  // Update a numeric leg field, ignoring values below its minimum. Strikes and entry prices
+  // of spreads can go below zero when the model prices them.
+  const handleLegNumberChange = (id: string, key: "quantity" | "strikePrice" | "expiryDays" | "volatility", value: string) => {
+    const parsed = parseFloat(value);
+    const min = key === "strikePrice" && allowsNonPositivePrices ? -Infinity : 0;
+    if (!isNaN(parsed) && parsed >= min) {
+      updateLeg(id, { [key]: parsed });
+    }
+  };
+
+  // A new leg starts as an at-the-money copy of the last one
+  const handleAddLeg = () => {
+    const { id, ...last } = legs[legs.length - 1];
+    onLegsChange([...legs, createLeg({ ...last, strikePrice: market.spotPrice })]);
+    track('strategy_leg_added', { legs: legs.length + 1 });
+  };
+
+  const handleDuplicateLeg = (leg: StrategyLeg) => {
+    const { id, ...fields } = leg;
+    const index = legs.findIndex((item) => item.id === id);
+    onLegsChange([...legs.slice(0, index + 1), createLeg(fields), ...legs.slice(index + 1)]);
+    track('strategy_leg_duplicated', { legs: legs.length + 1 });
+  };
+
+  const handleRemoveLeg = (id: string) => {
+    onLegsChange(legs.filter((leg) => leg.id !== id));
+    track('strategy_leg_removed', { legs: legs.length - 1 });
+  };
+
+  // Replace the legs with the template's, keeping the first option leg's expiry and volatility
+  const handleApplyTemplate = () => {
+    if (!template || market.spotPrice <= 0) {
+      return;
+    }
+    const { expiryDays, volatility } = legs.find((leg) => !isLinearLeg(leg)) ?? legs[0];
+    onLegsChange(
+      template.legs(market.spotPrice, templateParams).map((templateLeg) => createLeg({ ...templateLeg, expiryDays, volatility }))
+    );
+    track('strategy_template_applied', { template: template.id });
+  };
+
+  const handleHedge = () => {
+    onLegsChange(hedgeToDeltaNeutral(legs, market, model, modelParams));
+    track('strategy_delta_hedged', { delta: valuation.greeks.delta.toFixed(4) });
+  };
+
+  // Save each leg as a portfolio position, fixing its expiry to a date. The portfolio
+  // revalues positions with Black-Scholes, so they are entered at its premiums.
+  const handleAddToPortfolio = () => {
+    const now = Date.now();
+    const { spotPrice, ...positionMarket } = market;
+    const entryValuation = valueStrategy(legs, market);
+    addPositions(
+      legs.map((leg, i) => {
+        const { id, expiryDays, ...fields } = leg;
+        return {
+          ...fields,
+          id: createPositionId(),
+          asset,
+          expiry: now + expiryDays * MS_PER_DAY,
+          entryPremium: entryValuation.legs[i].premium,
+          spotPrice,
+          market: positionMarket,
+          savedAt: now
+        };
+      })
+    );
+    toast.success(`Added ${legs.length} leg${legs.length === 1 ? "" : "s"} to the portfolio`);
+    track('portfolio_position_added', { asset, legs: legs.length, source: "strategy" });
+  };
+
+  const formatSigned = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <Card className="grecian-blur">
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Strategy Templates</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <div className="option-input-group">
+              <Label className="option-label">Template</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger className={inputClassName}>
+                  <SelectValue placeholder="Choose a strategy" />
+                </SelectTrigger>
+                <SelectContent className="animate-scale">
+                  {strategyTemplates.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {template?.parameters.map((field) => (
+              <div key={field.key} className="option-input-group">
+                <Label className="option-label">{field.label}</Label>
+                <Input
+                  type="number"
+                  step={field.step}
+                  min={field.min}
+                  value={templateParams[field.key]}
+                  onChange={(e) => {
+                    const parsed = parseFloat(e.target.value);
+                    if (!isNaN(parsed) && parsed >= field.min) {
+                      setTemplateParams({ ...templateParams, [field.key]: parsed });
+                    }
+                  }}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+          {template && (
+            <p className="text-xs sm:text-sm text-muted-foreground">{template.view}</p>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleApplyTemplate}
+            disabled={!template || market.spotPrice <= 0}
+            className="w-full transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+          >
+            Build at ${market.spotPrice.toLocaleString()} spot
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="grecian-blur">
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Strategy Legs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {legs.map((leg, i) => (
+            <div key={leg.id} className="rounded-lg border border-border p-3 animate-fade-in">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs sm:text-sm font-medium">
+                  Leg {i + 1}
+                  <span className="ml-2 text-muted-foreground font-normal">
+                    {isLinearLeg(leg)
+                      ? `delta ${valuation.legs[i].greeks.delta.toFixed(4)} each`
+                      : `${formatSigned(valuation.legs[i].premium)} each`}
+                  </span>
+                </span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDuplicateLeg(leg)}
+                    className="h-7 px-2 text-muted-foreground hover:text-primary"
+                    aria-label="Duplicate leg"
+                  >
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveLeg(leg.id)}
+                    disabled={legs.length === 1}
+                    className="h-7 px-2 text-muted-foreground hover:text-destructive"
+                    aria-label="Remove leg"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-6 gap-2">
+                <div className="option-input-group">
+                  <Label className="option-label">Side</Label>
+                  <Select
+                    value={leg.side}
+                    onValueChange={(value) => updateLeg(leg.id, { side: value as StrategyLeg["side"] })}
+                  >
+                    <SelectTrigger className={cn(inputClassName, leg.side === "long" ? "text-emerald-600" : "text-red-600")}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="animate-scale">
+                      <SelectItem value="long">Long</SelectItem>
+                      <SelectItem value="short">Short</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="option-input-group">
+                  <Label className="option-label">Quantity</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={leg.quantity}
+                    onChange={(e) => handleLegNumberChange(leg.id, "quantity", e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="option-input-group">
+                  <Label className="option-label">Type</Label>
+                  <Select
+                    value={leg.type}
+                    onValueChange={(value) => updateLeg(leg.id, { type: value as StrategyLeg["type"] })}
+                  >
+                    <SelectTrigger className={inputClassName}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="animate-scale">
+                      <SelectItem value="call">Call</SelectItem>
+                      <SelectItem value="put">Put</SelectItem>
+                      <SelectItem value="spot">Spot</SelectItem>
+                      <SelectItem value="future">Dated Future</SelectItem>
+                      <SelectItem value="perpetual">Perpetual</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="option-input-group">
+                  <Label className="option-label">{isLinearLeg(leg) ? "Entry Price ($)" : "Strike ($)"}</Label>
+                  <Input
+                    type="number"
+                    min={allowsNonPositivePrices ? undefined : "0"}
+                    value={leg.strikePrice}
+                    onChange={(e) => handleLegNumberChange(leg.id, "strikePrice", e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="option-input-group">
+                  <Label className="option-label">Expiry (days)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={leg.expiryDays}
+                    disabled={leg.type === "spot" || leg.type === "perpetual"}
+                    onChange={(e) => handleLegNumberChange(leg.id, "expiryDays", e.target.value)}
+                    className={cn(inputClassName, (leg.type === "spot" || leg.type === "perpetual") && "opacity-50")}
+                  />
+                </div>
+                <div className="option-input-group">
+                  <Label className="option-label">Volatility (%)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={leg.volatility}
+                    disabled={isLinearLeg(leg)}
+                    onChange={(e) => handleLegNumberChange(leg.id, "volatility", e.target.value)}
+                    className={cn(inputClassName, isLinearLeg(leg) && "opacity-50")}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAddLeg}
+            className="w-full transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+          >
+            <Plus className="mr-1.5 h-3.5 w-3.5" />
+            Add Leg
+          </Button>
+        </CardContent>
+      </Card>
+
+      {backExpiries.length > 0 && (
+        <Card className="grecian-blur">
+          <CardHeader className="pb-2 sm:pb-3">
+            <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Valuation at Front Expiry</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              The legs expire on different dates, so the payoff is shown when the front legs expire
+              in {horizon.days} days. Later legs are valued then with the volatility assumed for their expiry.
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {backExpiries.map((days) => (
+                <div key={days} className="option-input-group">
+                  <Label className="option-label">{days}-day vol (%)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={horizon.volatilities[days]}
+                    onChange={(e) => {
+                      const parsed = parseFloat(e.target.value);
+                      if (!isNaN(parsed) && parsed >= 0) {
+                        setHorizonVolatilities({ ...horizonVolatilities, [days]: parsed });
+                      }
+                    }}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+        <Card className="grecian-blur">
+          <CardHeader className="pb-2 sm:pb-3">
+            <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Net Premium</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl sm:text-3xl font-bold text-primary">
+              ${Math.abs(valuation.premium).toFixed(2)}
+            </div>
+            <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+              {valuation.premium >= 0 ? "Net debit paid" : "Net credit received"} for {legs.length} leg{legs.length === 1 ? "" : "s"}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddToPortfolio}
+              disabled={legs.length === 0 || market.spotPrice <= 0}
+              className="w-full mt-3 transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+            >
+              Add to Portfolio
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="grecian-blur">
+          <CardHeader className="pb-2 sm:pb-3">
+            <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Net Greeks</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1 text-xs sm:text-sm">
+              {Object.entries(valuation.greeks).map(([key, value]) => (
+                <div key={key} className="flex justify-between">
+                  <span className="font-medium capitalize">{key}</span>
+                  <span className="font-medium">{value.toFixed(4)}</span>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleHedge}
+              disabled={!allowsNonPositivePrices && market.spotPrice <= 0}
+              className="w-full mt-3 transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+            >
+              Hedge to Delta-Neutral
+            </Button>
+            <p className="text-xs text-muted-foreground mt-2">
+              Sizes the first spot, future or perpetual leg, adding a spot leg if there is none.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="grecian-blur sm:col-span-2">
+          <CardHeader className="pb-2 sm:pb-3">
+            <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Payoff Analytics</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PayoffAnalyticsPanel
+              analytics={payoffAnalytics}
+              formatValue={(value) => `$${value.toFixed(2)}`}
+              notional={market.spotPrice}
+            />
+            {backExpiries.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Measured at the front expiry, so the back legs' time value is included.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="grecian-blur w-full">
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-base sm:text-lg font-semibold text-foreground">
+            {backExpiries.length > 0 ? "Strategy P&L at Front Expiry" : "Strategy Payoff"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-2 sm:p-4">
+          <div className="w-full aspect-[4/3] sm:aspect-[16/9] lg:aspect-[2/1] rounded-lg overflow-hidden">
+            <StrategyPayoffGraph
+              legs={legs}
+              legPremiums={legPremiums}
+              market={market}
+              model={model}
+              modelParams={modelParams}
+              allowNegativePrices={allowsNonPositivePrices}
+              horizon={horizon}
+              breakevens={payoffAnalytics.breakevens}
+            />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  TooltipProps
+} from 'recharts';
+import { ModelParameters, PricingModel } from '@/utils/pricingModels';
+import { calculateStrategyPnl, StrategyLeg, StrategyMarket, ValuationHorizon } from '@/utils/strategy';
+
+interface StrategyPayoffGraphProps {
+  legs: StrategyLeg[];
+  legPremiums: number[];
+  market: StrategyMarket;
+  model: PricingModel;
+  modelParams: ModelParameters;
+  allowNegativePrices?: boolean; // Underlyings such as spreads and rates can go below zero
+  horizon: ValuationHorizon; // The front expiry, when legs expire on different dates
+  breakevens?: number[];
+}
+
+export const StrategyPayoffGraph: React.FC<StrategyPayoffGraphProps> = ({
+  legs,
+  legPremiums,
+  market,
+  model,
+  modelParams,
+  allowNegativePrices = false,
+  horizon,
+  breakevens = []
+}) => {
+  const { spotPrice } = market;
+  // Cover every strike with room either side, centred on the current price
+  const strikes = legs.map((leg) => leg.strikePrice);
+  const halfWidth = Math.max(
+    (allowNegativePrices ? Math.max(Math.abs(spotPrice), 1) : spotPrice) * 0.5,
+    ...strikes.map((strike) => Math.abs(strike - spotPrice) * 1.25)
+  );
+  const minPrice = allowNegativePrices ? spotPrice - halfWidth : Math.max(0, spotPrice - halfWidth);
+  const maxPrice = spotPrice + halfWidth;
+
+  // Generate data points for the graph, including each strike so kinks are drawn exactly
+  const step = (maxPrice - minPrice) / 100;
+  const prices = Array.from({ length: 101 }, (_, i) => minPrice + i * step)
+    .concat(strikes.filter((strike) => strike > minPrice && strike < maxPrice))
+    .sort((a, b) => a - b);
+  const data = prices.map((price) => ({
+    price: Number(price.toFixed(2)),
+    pnl: Number(calculateStrategyPnl(legs, legPremiums, price, market, horizon, model, modelParams).toFixed(2))
+  }));
+
+  const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-3 rounded-lg shadow-lg">
+          <p className="text-gray-600 dark:text-gray-300 font-medium mb-2 text-xs sm:text-sm">
+            Asset Price: ${Number(label).toLocaleString()}
+          </p>
+          <p className={`font-medium text-xs sm:text-sm ${payload[0].value >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+            P&L: ${payload[0].value.toLocaleString()}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart
+        data={data}
+        margin={{
+          top: 10,
+          right: 10,
+          left: 10,
+          bottom: 10,
+        }}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.2} />
+        <XAxis
+          dataKey="price"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          label={{
+            value: `Asset Price in ${Number(horizon.days.toFixed(2))} Days ($)`,
+            position: 'insideBottom',
+            offset: -5,
+            style: {
+              textAnchor: 'middle',
+              fontSize: '12px',
+              fill: '#6B7280'
+            }
+          }}
+          tickFormatter={(value) => `$${value}`}
+          stroke="#6B7280"
+          tick={{ fontSize: 11 }}
+          tickMargin={5}
+        />
+        <YAxis
+          label={{
+            value: 'P&L ($)',
+            angle: -90,
+            position: 'insideLeft',
+            offset: 0,
+            style: {
+              textAnchor: 'middle',
+              fontSize: '12px',
+              fill: '#6B7280'
+            }
+          }}
+          tickFormatter={(value) => `$${value}`}
+          stroke="#6B7280"
+          tick={{ fontSize: 11 }}
+          tickMargin={5}
+        />
+        <Tooltip
+          content={<CustomTooltip />}
+          cursor={{ stroke: '#6B7280', strokeWidth: 1 }}
+        />
+        <ReferenceLine y={0} stroke="#6B7280" />
+        <ReferenceLine
+          x={spotPrice}
+          stroke="#f59e0b"
+          strokeDasharray="4 4"
+          label={{
+            value: 'Spot',
+            position: 'insideTopRight',
+            fontSize: 11,
+            fill: '#f59e0b'
+          }}
+        />
+        {breakevens.filter((price) => price >= minPrice && price <= maxPrice).map((price) => (
+          <ReferenceLine
+            key={price}
+            x={Number(price.toFixed(2))}
+            stroke="#8b5cf6"
+            strokeDasharray="2 2"
+            label={{
+              value: `BE $${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+              position: 'insideBottomRight',
+              fontSize: 11,
+              fill: '#8b5cf6'
+            }}
+          />
+        ))}
+        <Line
+          type="linear"
+          dataKey="pnl"
+          stroke="#3b82f6"
+          name="Strategy P&L"
+          dot={false}
+          strokeWidth={2}
+          activeDot={{ r: 6, stroke: '#1d4ed8', strokeWidth: 2 }}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
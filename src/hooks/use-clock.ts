@@ -0,0 +1,19 @@
+import * as React from "react"
+
+// Current time in milliseconds, refreshed every interval while enabled
+export function useClock(enabled: boolean, intervalMs: number) {
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    setNow(Date.now())
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs)
+
+    return () => window.clearInterval(timer)
+  }, [enabled, intervalMs])
+
+  return now
+}
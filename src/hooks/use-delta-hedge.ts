@@ -0,0 +1,11 @@
+import type { HedgeSimulationRequest, HedgeSimulationResult } from "@/utils/deltaHedging"
+
+import { useWorkerComputation } from "./use-worker-computation"
+
+const createWorker = () =>
+  new Worker(new URL("../workers/deltaHedge.worker.ts", import.meta.url), { type: "module" })
+
+// Run a delta-hedging simulation in a Web Worker
+export function useDeltaHedge(request: HedgeSimulationRequest | null) {
+  return useWorkerComputation<HedgeSimulationRequest, HedgeSimulationResult>(createWorker, request)
+}
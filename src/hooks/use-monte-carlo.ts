@@ -0,0 +1,11 @@
+import type { MonteCarloRequest, MonteCarloResult } from "@/utils/monteCarlo"
+
+import { useWorkerComputation } from "./use-worker-computation"
+
+const createWorker = () =>
+  new Worker(new URL("../workers/monteCarlo.worker.ts", import.meta.url), { type: "module" })
+
+// Price a Monte Carlo request in a Web Worker
+export function useMonteCarlo(request: MonteCarloRequest | null) {
+  return useWorkerComputation<MonteCarloRequest, MonteCarloResult>(createWorker, request)
+}
@@ -0,0 +1,50 @@
+import * as React from "react"
+
+import { SavedPosition } from "@/utils/portfolio"
+
+const STORAGE_KEY = "options-calc-portfolio"
+
+function readPositions(): SavedPosition[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as SavedPosition[]) : []
+  } catch {
+    return []
+  }
+}
+
+// Saved positions, kept in local storage and shared between tabs
+export function usePortfolio() {
+  const [positions, setPositions] = React.useState<SavedPosition[]>(readPositions)
+
+  React.useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) {
+        setPositions(readPositions())
+      }
+    }
+
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [])
+
+  const update = React.useCallback((change: (current: SavedPosition[]) => SavedPosition[]) => {
+    const next = change(readPositions())
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    setPositions(next)
+  }, [])
+
+  const addPositions = React.useCallback(
+    (added: SavedPosition[]) => update((current) => [...current, ...added]),
+    [update]
+  )
+
+  const removePosition = React.useCallback(
+    (id: string) => update((current) => current.filter((position) => position.id !== id)),
+    [update]
+  )
+
+  const clearPositions = React.useCallback(() => update(() => []), [update])
+
+  return { positions, addPositions, removePosition, clearPositions }
+}
@@ -0,0 +1,48 @@
+import * as React from "react"
+
+// Reply of a computation worker: the result, or the message of the error it threw
+export type WorkerResponse<Result> = { result: Result } | { error: string }
+
+// Run a request in a Web Worker. A new request terminates the worker still busy
+// with the previous one, so stale results never land. createWorker should be
+// defined once per module, since a new function starts the computation again.
+export function useWorkerComputation<Request, Result>(
+  createWorker: () => Worker,
+  request: Request | null
+) {
+  const [result, setResult] = React.useState<Result | null>(null)
+  const [isRunning, setIsRunning] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!request) {
+      setResult(null)
+      setIsRunning(false)
+      return
+    }
+
+    const worker = createWorker()
+    setIsRunning(true)
+    setError(null)
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse<Result>>) => {
+      if ("error" in event.data) {
+        setError(event.data.error)
+      } else {
+        setResult(event.data.result)
+      }
+      setIsRunning(false)
+      worker.terminate()
+    }
+    worker.onerror = (event) => {
+      setError(event.message)
+      setIsRunning(false)
+      worker.terminate()
+    }
+    worker.postMessage(request)
+
+    return () => worker.terminate()
+  }, [createWorker, request])
+
+  return { result, isRunning, error }
+}
@@ -1,5 +1,8 @@
 
 import React from "react";
+import { Link } from "react-router-dom";
+import { Briefcase } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import OptionCalculator from "@/components/OptionCalculator";
 import { ThemeToggle } from "@/components/ThemeToggle";
 
@@ -7,7 +10,13 @@ const Index = () => {
   return (
     <div className="min-h-screen bg-groww-lightBg dark:bg-groww-darkBg py-8 px-4 sm:px-6 transition-colors duration-200">
       <div className="max-w-4xl mx-auto">
-        <div className="flex justify-end mb-4">
+        <div className="flex justify-end items-center gap-2 mb-4">
+          <Button asChild variant="ghost" size="sm" className="transition-all duration-200 hover:bg-accent hover:text-accent-foreground">
+            <Link to="/portfolio">
+              <Briefcase className="h-[1.2rem] w-[1.2rem]" />
+              <span className="ml-2">Portfolio</span>
+            </Link>
+          </Button>
           <ThemeToggle />
         </div>
         <OptionCalculator />
@@ -0,0 +1,33 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Briefcase, Calculator } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PortfolioDashboard } from "@/components/PortfolioDashboard";
+import { ThemeToggle } from "@/components/ThemeToggle";
+
+const Portfolio = () => {
+  return (
+    <div className="min-h-screen bg-groww-lightBg dark:bg-groww-darkBg py-8 px-4 sm:px-6 transition-colors duration-200">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5 sm:h-6 sm:w-6 text-primary" />
+            <h1 className="text-lg sm:text-2xl font-bold text-foreground">Portfolio</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="transition-all duration-200 hover:bg-accent hover:text-accent-foreground">
+              <Link to="/">
+                <Calculator className="h-[1.2rem] w-[1.2rem]" />
+                <span className="ml-2">Calculator</span>
+              </Link>
+            </Button>
+            <ThemeToggle />
+          </div>
+        </div>
+        <PortfolioDashboard />
+      </div>
+    </div>
+  );
+};
+
+export default Portfolio;
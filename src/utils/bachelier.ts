@@ -0,0 +1,138 @@
+/**
+ * Bachelier (Normal) Option Pricing Model
+ *
+ * This utility prices European options when the underlying follows arithmetic rather
+ * than geometric Brownian motion, so its volatility is quoted in price units and the
+ * underlying may be zero or negative. This suits basis spreads, funding rates and
+ * other low-priced or signed quantities. It also converts between normal and
+ * lognormal (Black-Scholes) volatilities by matching prices.
+ */
+
+import { calculateImpliedVolatility, calculateOptionPremium, normalCDF, normalPDF } from "./blackScholes";
+
+// Bachelier price of a European option
+export function calculateBachelierPremium(
+  spotPrice: number,        // Current value of the underlying, which may be negative
+  strikePrice: number,      // Strike of the option, which may be negative
+  timeToExpiry: number,     // Time to expiry in years
+  normalVolatility: number, // Annualised volatility in price units
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (timeToExpiry <= 0 || normalVolatility <= 0) {
+    return 0;
+  }
+
+  const forward = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const stdDev = normalVolatility * Math.sqrt(timeToExpiry);
+  const d = (forward - strikePrice) / stdDev;
+  const phi = isCall ? 1 : -1;
+
+  // e^(-rt) * [φ(F - K)N(φd) + σ√t * n(d)]
+  return Math.exp(-riskFreeRate * timeToExpiry) *
+    (phi * (forward - strikePrice) * normalCDF(phi * d) + stdDev * normalPDF(d));
+}
+
+// Calculate Bachelier Greeks
+export function calculateBachelierGreeks(
+  spotPrice: number,        // Current value of the underlying, which may be negative
+  strikePrice: number,      // Strike of the option, which may be negative
+  timeToExpiry: number,     // Time to expiry in years
+  normalVolatility: number, // Annualised volatility in price units
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): {
+  delta: number;
+  gamma: number;
+  theta: number;  // Daily
+  vega: number;   // Per one unit change in normal volatility
+  rho: number;    // Per 1% change in interest rate
+} {
+  // Check for invalid inputs
+  if (timeToExpiry <= 0 || normalVolatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const T = timeToExpiry;
+  const growth = Math.exp((riskFreeRate - dividendYield) * T);
+  const discount = Math.exp(-riskFreeRate * T);
+  const forward = spotPrice * growth;
+  const stdDev = normalVolatility * Math.sqrt(T);
+  const d = (forward - strikePrice) / stdDev;
+  const phi = isCall ? 1 : -1;
+  const premium = calculateBachelierPremium(spotPrice, strikePrice, T, normalVolatility, riskFreeRate, isCall, dividendYield);
+
+  // Derivatives with respect to d cancel, leaving only the explicit dependence on F, σ and t
+  const forwardDelta = phi * normalCDF(phi * d);
+  const dPremiumDt = -riskFreeRate * premium +
+    discount * (forwardDelta * (riskFreeRate - dividendYield) * forward + normalVolatility * normalPDF(d) / (2 * Math.sqrt(T)));
+
+  return {
+    delta: discount * growth * forwardDelta,
+    gamma: discount * growth * growth * normalPDF(d) / stdDev,
+    theta: -dPremiumDt / 365,
+    vega: discount * Math.sqrt(T) * normalPDF(d),
+    rho: (-T * premium + discount * forwardDelta * T * forward) * 0.01
+  };
+}
+
+// Lognormal volatility giving the same price as a normal volatility
+export function normalToLognormalVolatility(
+  normalVolatility: number, // Annualised volatility in price units
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number | null {
+  // Lognormal volatility is only defined for positive prices
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || normalVolatility <= 0) {
+    return null;
+  }
+
+  // Out-of-the-money options carry the time value most precisely
+  const forward = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const isCall = strikePrice >= forward;
+  const premium = calculateBachelierPremium(spotPrice, strikePrice, timeToExpiry, normalVolatility, riskFreeRate, isCall, dividendYield);
+  return calculateImpliedVolatility(premium, spotPrice, strikePrice, timeToExpiry, riskFreeRate, isCall, dividendYield);
+}
+
+// Normal volatility giving the same price as a lognormal volatility
+export function lognormalToNormalVolatility(
+  volatility: number,       // Implied volatility as a decimal
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number | null {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return null;
+  }
+
+  const forward = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const isCall = strikePrice >= forward;
+  const target = calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+  const price = (normalVolatility: number) =>
+    calculateBachelierPremium(spotPrice, strikePrice, timeToExpiry, normalVolatility, riskFreeRate, isCall, dividendYield);
+
+  // The Bachelier price rises monotonically with volatility, so bracket and bisect
+  let low = 0;
+  let high = volatility * Math.max(forward, strikePrice);
+  while (price(high) < target && high < 1e12) {
+    high *= 2;
+  }
+  for (let i = 0; i < 200 && high - low > 1e-10 * high; i++) {
+    const mid = 0.5 * (low + high);
+    if (price(mid) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return 0.5 * (low + high);
+}
@@ -0,0 +1,154 @@
+/**
+ * Barrier Option Pricing Model
+ *
+ * This utility prices the eight single-barrier options (down/up, in/out, call/put)
+ * with the Reiner-Rubinstein closed-form formulas, following the notation in
+ * Haug, "The Complete Guide to Option Pricing Formulas". Knock-out rebates are
+ * paid when the barrier is hit and knock-in rebates at expiry if it never is.
+ */
+
+import { calculateOptionPremium, normalCDF } from "./blackScholes";
+
+export type BarrierType = "down-and-in" | "down-and-out" | "up-and-in" | "up-and-out";
+
+// Whether the spot has already crossed the barrier
+export function isBarrierBreached(spotPrice: number, barrierType: BarrierType, barrierLevel: number): boolean {
+  return barrierType.startsWith("down") ? spotPrice <= barrierLevel : spotPrice >= barrierLevel;
+}
+
+// Reiner-Rubinstein formula for single-barrier European options
+export function calculateBarrierPremium(
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  volatility: number,       // Implied volatility as a decimal
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  barrierType: BarrierType, // Direction and knock-in/knock-out behaviour
+  barrierLevel: number,     // Price level that knocks the option in or out
+  rebate: number = 0,       // Cash paid if a knock-out is hit or a knock-in never is
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || barrierLevel <= 0) {
+    return 0;
+  }
+
+  const isKnockIn = barrierType.endsWith("in");
+  const isDown = barrierType.startsWith("down");
+
+  // Once breached, a knock-in is a vanilla option and a knock-out pays its rebate
+  if (isBarrierBreached(spotPrice, barrierType, barrierLevel)) {
+    return isKnockIn
+      ? calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield)
+      : rebate;
+  }
+
+  const S = spotPrice;
+  const K = strikePrice;
+  const H = barrierLevel;
+  const T = timeToExpiry;
+  const r = riskFreeRate;
+  const b = riskFreeRate - dividendYield; // Cost of carry
+  const sigmaRootT = volatility * Math.sqrt(T);
+  const phi = isCall ? 1 : -1;
+  const eta = isDown ? 1 : -1;
+
+  const mu = (b - 0.5 * volatility * volatility) / (volatility * volatility);
+  const lambda = Math.sqrt(mu * mu + 2 * r / (volatility * volatility));
+  const x1 = Math.log(S / K) / sigmaRootT + (1 + mu) * sigmaRootT;
+  const x2 = Math.log(S / H) / sigmaRootT + (1 + mu) * sigmaRootT;
+  const y1 = Math.log((H * H) / (S * K)) / sigmaRootT + (1 + mu) * sigmaRootT;
+  const y2 = Math.log(H / S) / sigmaRootT + (1 + mu) * sigmaRootT;
+  const z = Math.log(H / S) / sigmaRootT + lambda * sigmaRootT;
+
+  const carryDiscount = Math.exp((b - r) * T);
+  const discount = Math.exp(-r * T);
+  const ratio = H / S;
+
+  // Building blocks A-F from Haug (2007), section 4.17.1
+  const A = phi * S * carryDiscount * normalCDF(phi * x1) -
+    phi * K * discount * normalCDF(phi * x1 - phi * sigmaRootT);
+  const B = phi * S * carryDiscount * normalCDF(phi * x2) -
+    phi * K * discount * normalCDF(phi * x2 - phi * sigmaRootT);
+  const C = phi * S * carryDiscount * Math.pow(ratio, 2 * (mu + 1)) * normalCDF(eta * y1) -
+    phi * K * discount * Math.pow(ratio, 2 * mu) * normalCDF(eta * y1 - eta * sigmaRootT);
+  const D = phi * S * carryDiscount * Math.pow(ratio, 2 * (mu + 1)) * normalCDF(eta * y2) -
+    phi * K * discount * Math.pow(ratio, 2 * mu) * normalCDF(eta * y2 - eta * sigmaRootT);
+  const E = rebate * discount * (normalCDF(eta * x2 - eta * sigmaRootT) -
+    Math.pow(ratio, 2 * mu) * normalCDF(eta * y2 - eta * sigmaRootT));
+  const F = rebate * (Math.pow(ratio, mu + lambda) * normalCDF(eta * z) +
+    Math.pow(ratio, mu - lambda) * normalCDF(eta * z - 2 * eta * lambda * sigmaRootT));
+
+  const strikeAboveBarrier = K > H;
+
+  if (isCall) {
+    switch (barrierType) {
+      case "down-and-in":
+        return strikeAboveBarrier ? C + E : A - B + D + E;
+      case "up-and-in":
+        return strikeAboveBarrier ? A + E : B - C + D + E;
+      case "down-and-out":
+        return strikeAboveBarrier ? A - C + F : B - D + F;
+      case "up-and-out":
+        return strikeAboveBarrier ? F : A - B + C - D + F;
+    }
+  }
+
+  switch (barrierType) {
+    case "down-and-in":
+      return strikeAboveBarrier ? B - C + D + E : A + E;
+    case "up-and-in":
+      return strikeAboveBarrier ? A - B + D + E : C + E;
+    case "down-and-out":
+      return strikeAboveBarrier ? A - B + C - D + F : F;
+    case "up-and-out":
+      return strikeAboveBarrier ? B - D + F : A - C + F;
+  }
+}
+
+// Calculate barrier option Greeks by central finite differences of the closed form
+export function calculateBarrierGreeks(
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  volatility: number,       // Implied volatility as a decimal
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  barrierType: BarrierType, // Direction and knock-in/knock-out behaviour
+  barrierLevel: number,     // Price level that knocks the option in or out
+  rebate: number = 0,       // Cash paid if a knock-out is hit or a knock-in never is
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): {
+  delta: number;
+  gamma: number;
+  theta: number;  // Daily
+  vega: number;   // Per 1% change in volatility
+  rho: number;    // Per 1% change in interest rate
+} {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || barrierLevel <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const price = (s: number, t: number, sigma: number, rate: number) =>
+    calculateBarrierPremium(s, strikePrice, t, sigma, rate, isCall, barrierType, barrierLevel, rebate, dividendYield);
+
+  const base = price(spotPrice, timeToExpiry, volatility, riskFreeRate);
+  const ds = spotPrice * 1e-4;
+  const up = price(spotPrice + ds, timeToExpiry, volatility, riskFreeRate);
+  const down = price(spotPrice - ds, timeToExpiry, volatility, riskFreeRate);
+
+  // Theta over one day, or over what is left of the option's life
+  const dt = Math.min(1 / 365, timeToExpiry / 2);
+
+  return {
+    delta: (up - down) / (2 * ds),
+    gamma: (up - 2 * base + down) / (ds * ds),
+    theta: (price(spotPrice, timeToExpiry - dt, volatility, riskFreeRate) - base) / (dt * 365),
+    vega: (price(spotPrice, timeToExpiry, volatility + 0.01, riskFreeRate) -
+      price(spotPrice, timeToExpiry, Math.max(volatility - 0.01, 1e-4), riskFreeRate)) / 2,
+    rho: (price(spotPrice, timeToExpiry, volatility, riskFreeRate + 0.01) -
+      price(spotPrice, timeToExpiry, volatility, riskFreeRate - 0.01)) / 2
+  };
+}
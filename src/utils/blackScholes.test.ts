@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateGreeks,
+  calculateImpliedVolatility,
+  calculateOptionPremium,
+  inverseNormalCDF,
+  normalCDF
+} from "./blackScholes";
+
+interface OptionFixture {
+  name: string;
+  spotPrice: number;
+  strikePrice: number;
+  timeToExpiry: number;
+  volatility: number;
+  riskFreeRate: number;
+  dividendYield: number;
+}
+
+// Hull, Options, Futures and Other Derivatives, Example 15.6
+const hull = { spotPrice: 42, strikePrice: 40, timeToExpiry: 0.5, volatility: 0.2, riskFreeRate: 0.1, dividendYield: 0 };
+
+const fixtures: OptionFixture[] = [
+  { name: "Hull example", ...hull },
+  { name: "with dividend yield", spotPrice: 100, strikePrice: 95, timeToExpiry: 0.75, volatility: 0.3, riskFreeRate: 0.05, dividendYield: 0.03 },
+  { name: "deep out of the money", spotPrice: 100, strikePrice: 160, timeToExpiry: 0.25, volatility: 0.4, riskFreeRate: 0.02, dividendYield: 0.01 },
+  { name: "crypto volatility", spotPrice: 60000, strikePrice: 65000, timeToExpiry: 30 / 365, volatility: 0.8, riskFreeRate: 0, dividendYield: 0 }
+];
+
+// Known values of the standard normal distribution
+const normalFixtures: [x: number, p: number][] = [
+  [0, 0.5],
+  [1, 0.8413447460685429],
+  [-1, 0.15865525393145707],
+  [1.959963984540054, 0.975],
+  [-2.326347874040841, 0.01],
+  [3, 0.9986501019683699],
+  [-5, 2.866515718791939e-7],
+  [-10, 7.619853024160527e-24]
+];
+
+const premium = (fixture: OptionFixture, isCall: boolean, overrides: Partial<OptionFixture> = {}) => {
+  const f = { ...fixture, ...overrides };
+  return calculateOptionPremium(f.spotPrice, f.strikePrice, f.timeToExpiry, f.volatility, f.riskFreeRate, isCall, f.dividendYield);
+};
+
+describe("calculateOptionPremium", () => {
+  it("matches Hull's call and put values", () => {
+    expect(premium(fixtures[0], true)).toBeCloseTo(4.76, 2);
+    expect(premium(fixtures[0], false)).toBeCloseTo(0.81, 2);
+  });
+
+  it.each(fixtures)("satisfies put-call parity ($name)", (fixture) => {
+    const { spotPrice, strikePrice, timeToExpiry, riskFreeRate, dividendYield } = fixture;
+    const forwardValue = spotPrice * Math.exp(-dividendYield * timeToExpiry) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+    expect(premium(fixture, true) - premium(fixture, false)).toBeCloseTo(forwardValue, 8);
+  });
+});
+
+describe("calculateGreeks", () => {
+  // Central differences of the premium, in the units calculateGreeks reports
+  const finiteDifferences = (fixture: OptionFixture, isCall: boolean) => {
+    const dS = fixture.spotPrice * 1e-4;
+    const dT = 1e-5;
+    const dSigma = 1e-5;
+    const dR = 1e-5;
+    const up = (key: keyof OptionFixture, h: number) => premium(fixture, isCall, { [key]: (fixture[key] as number) + h });
+    const down = (key: keyof OptionFixture, h: number) => premium(fixture, isCall, { [key]: (fixture[key] as number) - h });
+    return {
+      delta: (up("spotPrice", dS) - down("spotPrice", dS)) / (2 * dS),
+      gamma: (up("spotPrice", dS) - 2 * premium(fixture, isCall) + down("spotPrice", dS)) / (dS * dS),
+      // Theta is the daily change as time passes, so expiry shrinks
+      theta: -(up("timeToExpiry", dT) - down("timeToExpiry", dT)) / (2 * dT) / 365,
+      vega: (up("volatility", dSigma) - down("volatility", dSigma)) / (2 * dSigma) / 100,
+      rho: (up("riskFreeRate", dR) - down("riskFreeRate", dR)) / (2 * dR) / 100
+    };
+  };
+
+  describe.each(fixtures)("$name", (fixture) => {
+    it.each([true, false])("agrees with finite differences (call: %s)", (isCall) => {
+      const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, dividendYield } = fixture;
+      const greeks = calculateGreeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+      const expected = finiteDifferences(fixture, isCall);
+      for (const key of Object.keys(expected) as (keyof typeof expected)[]) {
+        const tolerance = 1e-5 * Math.max(1, Math.abs(expected[key]));
+        expect(Math.abs(greeks[key] - expected[key]), key).toBeLessThan(tolerance);
+      }
+    });
+  });
+});
+
+describe("normalCDF", () => {
+  it.each(normalFixtures)("N(%s) = %s", (x, p) => {
+    expect(Math.abs(normalCDF(x) - p) / p).toBeLessThan(1e-12);
+  });
+});
+
+describe("inverseNormalCDF", () => {
+  it.each(normalFixtures.filter(([, p]) => p > 1e-20))("inverts N at %s", (x, p) => {
+    expect(inverseNormalCDF(p)).toBeCloseTo(x, 9);
+  });
+
+  it.each([1e-12, 1e-6, 0.02425, 0.3, 0.5, 0.7, 0.97575, 1 - 1e-6])("round-trips p = %s", (p) => {
+    expect(Math.abs(normalCDF(inverseNormalCDF(p)) - p) / p).toBeLessThan(1e-12);
+  });
+});
+
+describe("calculateImpliedVolatility", () => {
+  describe.each(fixtures)("$name", (fixture) => {
+    it.each([true, false])("recovers the input volatility (call: %s)", (isCall) => {
+      const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, dividendYield } = fixture;
+      const implied = calculateImpliedVolatility(
+        premium(fixture, isCall), spotPrice, strikePrice, timeToExpiry, riskFreeRate, isCall, dividendYield
+      );
+      expect(implied).not.toBeNull();
+      expect(implied as number).toBeCloseTo(volatility, 6);
+    });
+  });
+
+  it("recovers the volatility of a tiny deep out-of-the-money, near-expiry premium", () => {
+    const fixture = { name: "small premium", spotPrice: 100, strikePrice: 200, timeToExpiry: 0.01, volatility: 0.8, riskFreeRate: 0.05, dividendYield: 0 };
+    const { spotPrice, strikePrice, timeToExpiry, riskFreeRate } = fixture;
+    expect(premium(fixture, true)).toBeLessThan(1e-10);
+    const implied = calculateImpliedVolatility(premium(fixture, true), spotPrice, strikePrice, timeToExpiry, riskFreeRate, true);
+    expect(implied as number).toBeCloseTo(0.8, 6);
+  });
+});
@@ -3,25 +3,92 @@
  * Black-Scholes Option Pricing Model and Greeks Calculator
  * 
  * This utility provides functions to calculate option premiums and Greeks
- * using the Black-Scholes-Merton model.
+ * using the Black-Scholes-Merton model, with a continuous carry yield for
+ * dividends or staking rewards, and the Black-76 model for options on futures.
  */
 
+import { DayCountConvention, durationYearFraction, yearFraction } from "./dayCount";
+
 // Standard normal cumulative distribution function
+// Hart's double-precision algorithm as given by West (2005), "Better approximations
+// to cumulative normal functions", with a continued fraction for the tails. Relative
+// error stays below 1e-12 everywhere, which deep OTM premiums and IV solving need.
 export function normalCDF(x: number): number {
-  const a1 = 0.254829592;
-  const a2 = -0.284496736;
-  const a3 = 1.421413741;
-  const a4 = -1.453152027;
-  const a5 = 1.061405429;
-  const p = 0.3275911;
+  const absX = Math.abs(x);
+  let tail: number;
+
+  if (absX > 38.5) {
+    tail = 0; // Below the smallest representable double
+  } else {
+    const exponential = Math.exp(-0.5 * absX * absX);
+
+    if (absX < 4) {
+      let numerator = 3.52624965998911e-2 * absX + 0.700383064443688;
+      numerator = numerator * absX + 6.37396220353165;
+      numerator = numerator * absX + 33.912866078383;
+      numerator = numerator * absX + 112.079291497871;
+      numerator = numerator * absX + 221.213596169931;
+      numerator = numerator * absX + 220.206867912376;
 
-  const sign = x < 0 ? -1 : 1;
-  x = Math.abs(x) / Math.sqrt(2);
+      let denominator = 8.83883476483184e-2 * absX + 1.75566716318264;
+      denominator = denominator * absX + 16.064177579207;
+      denominator = denominator * absX + 86.7807322029461;
+      denominator = denominator * absX + 296.564248779674;
+      denominator = denominator * absX + 637.333633378831;
+      denominator = denominator * absX + 793.826512519948;
+      denominator = denominator * absX + 440.413735824752;
 
-  const t = 1 / (1 + p * x);
-  const erf = 1 - ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
+      tail = exponential * numerator / denominator;
+    } else {
+      // Laplace continued fraction for the tail. Hart's rational form loses relative
+      // accuracy beyond |x| = 4, so switch earlier and run deeper than West's five terms.
+      let fraction = absX;
+      for (let n = 40; n >= 1; n--) {
+        fraction = absX + n / fraction;
+      }
+      tail = exponential / fraction / Math.sqrt(2 * Math.PI);
+    }
+  }
 
-  return 0.5 * (1 + sign * erf);
+  return x > 0 ? 1 - tail : tail;
+}
+
+// Inverse of the standard normal cumulative distribution function
+// Acklam's rational approximation (relative error 1.15e-9), polished to full
+// double precision with one Halley step against normalCDF.
+export function inverseNormalCDF(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+1, 2.209460984245205e+2, -2.759285104469687e+2, 1.383577518672690e+2, -3.066479806614716e+1, 2.506628277459239e+0];
+  const b = [-5.447609879822406e+1, 1.615858368580409e+2, -1.556989798598866e+2, 6.680131188771972e+1, -1.328068155288572e+1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838e+0, -2.549732539343734e+0, 4.374664141464968e+0, 2.938163982698783e+0];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996e+0, 3.754408661907416e+0];
+  const pLow = 0.02425;
+
+  let x: number;
+  if (p < pLow) {
+    // Lower tail
+    const q = Math.sqrt(-2 * Math.log(p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+        ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else if (p <= 1 - pLow) {
+    // Central region
+    const q = p - 0.5;
+    const r = q * q;
+    x = (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+        (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  } else {
+    // Upper tail
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+         ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  // Halley refinement, working in the nearer tail to avoid cancellation
+  const error = x < 0 ? normalCDF(x) - p : (1 - p) - normalCDF(-x);
+  const u = error * Math.sqrt(2 * Math.PI) * Math.exp(0.5 * x * x);
+  return x - u / (1 + 0.5 * x * u);
 }
 
 // Standard normal probability density function
@@ -29,6 +96,17 @@ export function normalPDF(x: number): number {
   return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
 }
 
+// Market and contract inputs shared by the pricing engines
+export interface OptionPricingInputs {
+  spotPrice: number;      // Current price of the underlying asset
+  strikePrice: number;    // Strike price of the option
+  timeToExpiry: number;   // Time to expiry in years
+  volatility: number;     // Implied volatility as a decimal
+  riskFreeRate: number;   // Risk-free interest rate as a decimal
+  isCall: boolean;        // true for call option, false for put option
+  dividendYield?: number; // Continuous dividend/staking yield as a decimal
+}
+
 // Black-Scholes-Merton formula for European options
 export function calculateOptionPremium(
   spotPrice: number,     // Current price of the underlying asset
@@ -36,7 +114,8 @@ export function calculateOptionPremium(
   timeToExpiry: number,  // Time to expiry in years
   volatility: number,    // Implied volatility as a decimal (e.g., 0.2 for 20%)
   riskFreeRate: number,  // Risk-free interest rate as a decimal
-  isCall: boolean        // true for call option, false for put option
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
 ): number {
   // Check for invalid inputs
   if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
@@ -44,17 +123,18 @@ export function calculateOptionPremium(
   }
 
   // Calculate d1 and d2 parameters
-  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * volatility * volatility) * timeToExpiry) / 
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
             (volatility * Math.sqrt(timeToExpiry));
   const d2 = d1 - volatility * Math.sqrt(timeToExpiry);
+  const carryDiscount = Math.exp(-dividendYield * timeToExpiry);
 
   // Calculate option premium
   if (isCall) {
-    // Call option: C = S * N(d1) - K * e^(-rt) * N(d2)
-    return spotPrice * normalCDF(d1) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(d2);
+    // Call option: C = S * e^(-qt) * N(d1) - K * e^(-rt) * N(d2)
+    return spotPrice * carryDiscount * normalCDF(d1) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(d2);
   } else {
-    // Put option: P = K * e^(-rt) * N(-d2) - S * N(-d1)
-    return strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(-d2) - spotPrice * normalCDF(-d1);
+    // Put option: P = K * e^(-rt) * N(-d2) - S * e^(-qt) * N(-d1)
+    return strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(-d2) - spotPrice * carryDiscount * normalCDF(-d1);
   }
 }
 
@@ -65,7 +145,8 @@ export function calculateGreeks(
   timeToExpiry: number,  // Time to expiry in years
   volatility: number,    // Implied volatility as a decimal
   riskFreeRate: number,  // Risk-free interest rate as a decimal
-  isCall: boolean        // true for call option, false for put option
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
 ): {
   delta: number;  // Change in option price / Change in underlying price
   gamma: number;  // Rate of change of delta with respect to underlying price
@@ -79,38 +160,40 @@ export function calculateGreeks(
   }
 
   // Calculate d1 and d2 parameters
-  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * volatility * volatility) * timeToExpiry) / 
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
             (volatility * Math.sqrt(timeToExpiry));
   const d2 = d1 - volatility * Math.sqrt(timeToExpiry);
+  const carryDiscount = Math.exp(-dividendYield * timeToExpiry);
   
   // Calculate Greeks
   let delta: number;
   
   if (isCall) {
-    // Delta for call option: N(d1)
-    delta = normalCDF(d1);
+    // Delta for call option: e^(-qt) * N(d1)
+    delta = carryDiscount * normalCDF(d1);
   } else {
-    // Delta for put option: N(d1) - 1
-    delta = normalCDF(d1) - 1;
+    // Delta for put option: e^(-qt) * (N(d1) - 1)
+    delta = carryDiscount * (normalCDF(d1) - 1);
   }
   
-  // Gamma (same for both call and put): N'(d1) / (S * σ * √t)
-  const gamma = normalPDF(d1) / (spotPrice * volatility * Math.sqrt(timeToExpiry));
+  // Gamma (same for both call and put): e^(-qt) * N'(d1) / (S * σ * √t)
+  const gamma = carryDiscount * normalPDF(d1) / (spotPrice * volatility * Math.sqrt(timeToExpiry));
   
-  // Vega (same for both call and put): S * N'(d1) * √t * 0.01
-  const vega = spotPrice * normalPDF(d1) * Math.sqrt(timeToExpiry) * 0.01;
+  // Vega (same for both call and put): S * e^(-qt) * N'(d1) * √t * 0.01
+  const vega = spotPrice * carryDiscount * normalPDF(d1) * Math.sqrt(timeToExpiry) * 0.01;
   
   // Theta calculation (different for call and put)
-  const term1 = -(spotPrice * volatility * normalPDF(d1)) / (2 * Math.sqrt(timeToExpiry));
+  const term1 = -(spotPrice * carryDiscount * volatility * normalPDF(d1)) / (2 * Math.sqrt(timeToExpiry));
   const term2 = riskFreeRate * strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+  const term3 = dividendYield * spotPrice * carryDiscount;
   
   let theta: number;
   if (isCall) {
-    // Theta for call (daily): -S * σ * N'(d1) / (2 * √t) - r * K * e^(-rt) * N(d2)
-    theta = (term1 - term2 * normalCDF(d2)) / 365;
+    // Theta for call (daily): -S * e^(-qt) * σ * N'(d1) / (2 * √t) - r * K * e^(-rt) * N(d2) + q * S * e^(-qt) * N(d1)
+    theta = (term1 - term2 * normalCDF(d2) + term3 * normalCDF(d1)) / 365;
   } else {
-    // Theta for put (daily): -S * σ * N'(d1) / (2 * √t) + r * K * e^(-rt) * N(-d2)
-    theta = (term1 + term2 * normalCDF(-d2)) / 365;
+    // Theta for put (daily): -S * e^(-qt) * σ * N'(d1) / (2 * √t) + r * K * e^(-rt) * N(-d2) - q * S * e^(-qt) * N(-d1)
+    theta = (term1 + term2 * normalCDF(-d2) - term3 * normalCDF(-d1)) / 365;
   }
   
   // Rho calculation (different for call and put) - per 1% change
@@ -132,17 +215,311 @@ export function calculateGreeks(
   };
 }
 
-// Convert date to time to expiry in years
-export function dateToTimeToExpiry(expiryDate: Date): number {
-  const now = new Date();
-  const diffMs = expiryDate.getTime() - now.getTime();
-  const diffDays = diffMs / (1000 * 60 * 60 * 24);
-  return diffDays / 365; // Convert days to years
+// Calculate second- and third-order Greeks
+export function calculateHigherOrderGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): {
+  vanna: number;  // Change in delta per 1% change in volatility
+  volga: number;  // Change in vega per 1% change in volatility
+  charm: number;  // Change in delta per day
+  speed: number;  // Change in gamma when the underlying price changes by $1
+  color: number;  // Change in gamma per day
+  zomma: number;  // Change in gamma per 1% change in volatility
+  veta: number;   // Change in vega per day
+} {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { vanna: 0, volga: 0, charm: 0, speed: 0, color: 0, zomma: 0, veta: 0 };
+  }
+
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const carry = riskFreeRate - dividendYield;
+  const d1 = (Math.log(spotPrice / strikePrice) + (carry + 0.5 * volatility * volatility) * timeToExpiry) / 
+            (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const carryDiscount = Math.exp(-dividendYield * timeToExpiry);
+
+  // Delta, gamma and vega per unit of volatility, which the formulas below differentiate
+  const delta = isCall ? carryDiscount * normalCDF(d1) : carryDiscount * (normalCDF(d1) - 1);
+  const gamma = carryDiscount * normalPDF(d1) / (spotPrice * volatility * sqrtT);
+  const vega = spotPrice * carryDiscount * normalPDF(d1) * sqrtT;
+
+  // ∂d1/∂T = (b + σ²/2) / (σ * √t) - d1 / (2t)
+  const d1dT = (carry + 0.5 * volatility * volatility) / (volatility * sqrtT) - d1 / (2 * timeToExpiry);
+
+  // Time derivatives are taken with respect to expiry, then flipped to calendar time
+  const deltaDT = -dividendYield * delta + carryDiscount * normalPDF(d1) * d1dT;
+  const gammaDT = gamma * (-dividendYield - d1 * d1dT - 1 / (2 * timeToExpiry));
+  const vegaDT = vega * (-dividendYield - d1 * d1dT + 1 / (2 * timeToExpiry));
+
+  return {
+    // Vanna: -e^(-qt) * N'(d1) * d2 / σ
+    vanna: -carryDiscount * normalPDF(d1) * d2 / volatility * 0.01,
+    // Volga: vega * d1 * d2 / σ
+    volga: vega * d1 * d2 / volatility * 0.01 * 0.01,
+    charm: -deltaDT / 365,
+    // Speed: -Γ / S * (1 + d1 / (σ * √t))
+    speed: -gamma / spotPrice * (1 + d1 / (volatility * sqrtT)),
+    color: -gammaDT / 365,
+    // Zomma: Γ * (d1 * d2 - 1) / σ
+    zomma: gamma * (d1 * d2 - 1) / volatility * 0.01,
+    veta: -vegaDT * 0.01 / 365
+  };
+}
+
+export type DigitalType = "cash-or-nothing" | "asset-or-nothing";
+
+// Black-Scholes-Merton formula for European digital (binary) options
+export function calculateDigitalPremium(
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  volatility: number,       // Implied volatility as a decimal
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true pays above the strike, false pays below it
+  digitalType: DigitalType, // Pays a fixed cash amount or the asset itself
+  cashAmount: number = 1,   // Payout of a cash-or-nothing option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
+            (volatility * Math.sqrt(timeToExpiry));
+  const d2 = d1 - volatility * Math.sqrt(timeToExpiry);
+  const phi = isCall ? 1 : -1;
+
+  if (digitalType === "cash-or-nothing") {
+    // Cash-or-nothing: Q * e^(-rt) * N(±d2)
+    return cashAmount * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(phi * d2);
+  }
+  // Asset-or-nothing: S * e^(-qt) * N(±d1)
+  return spotPrice * Math.exp(-dividendYield * timeToExpiry) * normalCDF(phi * d1);
+}
+
+// Calculate all digital option Greeks
+export function calculateDigitalGreeks(
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  volatility: number,       // Implied volatility as a decimal
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true pays above the strike, false pays below it
+  digitalType: DigitalType, // Pays a fixed cash amount or the asset itself
+  cashAmount: number = 1,   // Payout of a cash-or-nothing option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const logMoneyness = Math.log(spotPrice / strikePrice);
+  const d1 = (logMoneyness + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
+            (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const phi = isCall ? 1 : -1;
+  const premium = calculateDigitalPremium(
+    spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, digitalType, cashAmount, dividendYield
+  );
+
+  if (digitalType === "cash-or-nothing") {
+    // Every Greek flows through N(±d2), scaled by the discounted payout
+    const weight = phi * cashAmount * Math.exp(-riskFreeRate * timeToExpiry) * normalPDF(d2);
+    // ∂d2/∂T = ((r - q - σ²/2) * t - ln(S/K)) / (2 * σ * t^1.5)
+    const d2dT = ((riskFreeRate - dividendYield - 0.5 * volatility * volatility) * timeToExpiry - logMoneyness) /
+      (2 * volatility * timeToExpiry * sqrtT);
+
+    return {
+      delta: weight / (spotPrice * volatility * sqrtT),
+      gamma: -weight * d1 / (spotPrice * spotPrice * volatility * volatility * timeToExpiry),
+      theta: -(-riskFreeRate * premium + weight * d2dT) / 365,
+      vega: -weight * d1 / volatility * 0.01,
+      rho: (-timeToExpiry * premium + weight * sqrtT / volatility) * 0.01
+    };
+  }
+
+  // Every Greek flows through N(±d1), scaled by the discounted asset price
+  const carryDiscount = Math.exp(-dividendYield * timeToExpiry);
+  const weight = phi * spotPrice * carryDiscount * normalPDF(d1);
+  // ∂d1/∂T = ((r - q + σ²/2) * t - ln(S/K)) / (2 * σ * t^1.5)
+  const d1dT = ((riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry - logMoneyness) /
+    (2 * volatility * timeToExpiry * sqrtT);
+
+  return {
+    delta: carryDiscount * normalCDF(phi * d1) + weight / (spotPrice * volatility * sqrtT),
+    gamma: weight / (spotPrice * spotPrice * volatility * sqrtT) * (1 - d1 / (volatility * sqrtT)),
+    theta: -(-dividendYield * premium + weight * d1dT) / 365,
+    vega: -weight * d2 / volatility * 0.01,
+    rho: weight * sqrtT / volatility * 0.01
+  };
+}
+
+// Black-76 formula for European options on futures
+export function calculateBlack76Premium(
+  futuresPrice: number,  // Current price of the underlying futures contract
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean        // true for call option, false for put option
+): number {
+  // Black-76 is Black-Scholes-Merton with the carry yield equal to the rate:
+  // C = e^(-rt) * (F * N(d1) - K * N(d2))
+  return calculateOptionPremium(futuresPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, riskFreeRate);
 }
 
-// Convert duration (hours, minutes, seconds) to time to expiry in years
-export function durationToTimeToExpiry(hours: number, minutes: number, seconds: number): number {
+// Calculate all Black-76 Greeks (delta and gamma are with respect to the futures price)
+export function calculateBlack76Greeks(
+  futuresPrice: number,  // Current price of the underlying futures contract
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean        // true for call option, false for put option
+): ReturnType<typeof calculateGreeks> {
+  const greeks = calculateGreeks(futuresPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, riskFreeRate);
+  
+  // With the futures price held fixed, the rate only enters through discounting: -t * V * 0.01
+  const premium = calculateBlack76Premium(futuresPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall);
+  
+  return {
+    ...greeks,
+    rho: -timeToExpiry * premium * 0.01
+  };
+}
+
+// Find the strike whose Black-Scholes-Merton delta matches a target delta
+export function calculateStrikeFromDelta(
+  targetDelta: number,   // Target delta, positive for calls and negative for puts
+  spotPrice: number,     // Current price of the underlying asset
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number | null {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return null;
+  }
+
+  // Invert delta = e^(-qt) * N(d1) for calls, or e^(-qt) * (N(d1) - 1) for puts
+  const probability = targetDelta * Math.exp(dividendYield * timeToExpiry) + (isCall ? 0 : 1);
+  if (probability <= 0 || probability >= 1) {
+    return null;
+  }
+
+  const d1 = inverseNormalCDF(probability);
+  const sigmaRootT = volatility * Math.sqrt(timeToExpiry);
+  return spotPrice * Math.exp(-d1 * sigmaRootT + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry);
+}
+
+// Solve for the implied volatility that reproduces a quoted option premium.
+// Uses Newton-Raphson on vega and falls back to bisection whenever a Newton
+// step leaves the bracket (deep ITM/OTM or near-expiry options where vega
+// collapses). Returns null when the premium violates no-arbitrage bounds.
+export function calculateImpliedVolatility(
+  marketPremium: number, // Quoted option premium
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number | null {
+  // Check for invalid inputs
+  if (marketPremium <= 0 || spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0) {
+    return null;
+  }
+
+  // The premium must lie strictly between intrinsic value and its upper bound
+  const discountedStrike = strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+  const discountedSpot = spotPrice * Math.exp(-dividendYield * timeToExpiry);
+  const lowerBound = isCall
+    ? Math.max(0, discountedSpot - discountedStrike)
+    : Math.max(0, discountedStrike - discountedSpot);
+  const upperBound = isCall ? discountedSpot : discountedStrike;
+  if (marketPremium <= lowerBound || marketPremium >= upperBound) {
+    return null;
+  }
+
+  const priceAt = (sigma: number) =>
+    calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, sigma, riskFreeRate, isCall, dividendYield);
+  // Tiny deep-OTM or near-expiry premiums need a price tolerance relative to the premium
+  const priceTolerance = 1e-10 * marketPremium;
+  const volatilityTolerance = 1e-10;
+
+  // Bracket the root, widening the upper end for extreme quotes
+  let low = 1e-6;
+  let high = 5;
+  while (priceAt(high) < marketPremium && high < 1000) {
+    high *= 2;
+  }
+
+  // Brenner-Subrahmanyam approximation as the starting point
+  let sigma = Math.sqrt((2 * Math.PI) / timeToExpiry) * (marketPremium / spotPrice);
+  if (!(sigma > low && sigma < high)) {
+    sigma = 0.5 * (low + high);
+  }
+
+  for (let i = 0; i < 100; i++) {
+    const diff = priceAt(sigma) - marketPremium;
+    if (Math.abs(diff) < priceTolerance) {
+      return sigma;
+    }
+
+    // Tighten the bracket around the root
+    if (diff > 0) {
+      high = sigma;
+    } else {
+      low = sigma;
+    }
+    if (high - low < volatilityTolerance) {
+      return sigma;
+    }
+
+    // Vega is reported per 1% change, so scale it back to per unit of volatility
+    const vega = calculateGreeks(spotPrice, strikePrice, timeToExpiry, sigma, riskFreeRate, isCall, dividendYield).vega * 100;
+    let next = sigma - diff / vega;
+    if (!isFinite(next) || next <= low || next >= high) {
+      next = 0.5 * (low + high);
+    }
+    if (Math.abs(next - sigma) < volatilityTolerance) {
+      return next;
+    }
+    sigma = next;
+  }
+
+  return sigma;
+}
+
+// Convert date to time to expiry in years under a day-count convention
+export function dateToTimeToExpiry(
+  expiryDate: Date,
+  convention: DayCountConvention = "act365",
+  weekendWeight: number = 1 // Weight of weekend hours under the crypto convention
+): number {
+  return yearFraction(new Date(), expiryDate, convention, weekendWeight);
+}
+
+// Convert duration (hours, minutes, seconds) to time to expiry in years under a day-count convention
+export function durationToTimeToExpiry(
+  hours: number,
+  minutes: number,
+  seconds: number,
+  convention: DayCountConvention = "act365",
+  weekendWeight: number = 1 // Weight of weekend hours under the crypto convention
+): number {
   const totalSeconds = hours * 3600 + minutes * 60 + seconds;
-  const totalDays = totalSeconds / (24 * 3600);
-  return totalDays / 365; // Convert days to years
+  return durationYearFraction(totalSeconds * 1000, convention, weekendWeight);
 }
@@ -0,0 +1,66 @@
+/**
+ * Contract Specifications
+ *
+ * This utility lists the contract sizes of option venues. Prices and Greeks are
+ * calculated per unit of the underlying, but a contract covers a multiple of it:
+ * one coin on Deribit, a hundredth or tenth of a coin on OKX and 100 shares for
+ * equity options. Each venue also sets the smallest quantity that can be traded,
+ * which is the increment for larger orders, and the tick size of its premium quotes.
+ */
+
+export interface ContractSpec {
+  id: string;
+  venue: string;
+  multiplier: number;            // Units of the underlying per contract
+  minSize: number;               // Smallest tradable quantity in contracts, and the size increment
+  tickSize: number;              // Smallest change in the quoted premium
+  tickCurrency: "coin" | "USD";  // Currency the premium is quoted in
+}
+
+// Listed contracts by asset
+export const contractSpecs: Record<string, ContractSpec[]> = {
+  BTC: [
+    { id: "deribit", venue: "Deribit", multiplier: 1, minSize: 0.1, tickSize: 0.0005, tickCurrency: "coin" },
+    { id: "okx", venue: "OKX", multiplier: 0.01, minSize: 1, tickSize: 0.0005, tickCurrency: "coin" },
+    { id: "bybit", venue: "Bybit", multiplier: 1, minSize: 0.01, tickSize: 5, tickCurrency: "USD" }
+  ],
+  ETH: [
+    { id: "deribit", venue: "Deribit", multiplier: 1, minSize: 1, tickSize: 0.0005, tickCurrency: "coin" },
+    { id: "okx", venue: "OKX", multiplier: 0.1, minSize: 1, tickSize: 0.0005, tickCurrency: "coin" },
+    { id: "bybit", venue: "Bybit", multiplier: 1, minSize: 0.1, tickSize: 0.1, tickCurrency: "USD" }
+  ],
+  SOL: [
+    { id: "deribit", venue: "Deribit", multiplier: 1, minSize: 1, tickSize: 0.01, tickCurrency: "USD" },
+    { id: "bybit", venue: "Bybit", multiplier: 1, minSize: 1, tickSize: 0.01, tickCurrency: "USD" }
+  ]
+};
+
+// Contracts offered for every asset
+export const genericContractSpecs: ContractSpec[] = [
+  { id: "unit", venue: "Per unit", multiplier: 1, minSize: 0.01, tickSize: 0.01, tickCurrency: "USD" },
+  { id: "equity", venue: "Equity style (100 units)", multiplier: 100, minSize: 1, tickSize: 0.01, tickCurrency: "USD" }
+];
+
+export function getContractSpecs(asset: string): ContractSpec[] {
+  return [...(contractSpecs[asset] ?? []), ...genericContractSpecs];
+}
+
+// Contract with the given id, or the asset's first listed contract
+export function getContractSpec(asset: string, id: string): ContractSpec {
+  const specs = getContractSpecs(asset);
+  return specs.find((spec) => spec.id === id) ?? specs[0];
+}
+
+// Round a quantity down to a whole number of size increments, never below the minimum
+export function roundQuantity(quantity: number, spec: ContractSpec): number {
+  const increments = Math.max(1, Math.floor(quantity / spec.minSize + 1e-9));
+  return Number((increments * spec.minSize).toFixed(8));
+}
+
+// Round a premium to the nearest tick
+export function roundToTick(premium: number, tickSize: number): number {
+  if (tickSize <= 0) {
+    return premium;
+  }
+  return Number((Math.round(premium / tickSize) * tickSize).toFixed(8));
+}
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { isTradingDay, yearFraction } from "./dayCount";
+
+const hours = (count: number) => count / 24;
+
+// Each case is checked with the process in several time zones, which must not change the answer
+describe.each(["UTC", "Asia/Tokyo", "America/Los_Angeles", "Pacific/Kiritimati"])("in the %s time zone", (timeZone) => {
+  const originalTimeZone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = timeZone;
+  });
+  afterAll(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  describe("crypto convention", () => {
+    it("weights UTC weekend hours", () => {
+      // Friday 12:00 to Monday 12:00 UTC: a weekday day and two weekend days
+      const fraction = yearFraction(new Date("2024-03-01T12:00:00Z"), new Date("2024-03-04T12:00:00Z"), "crypto", 0.5);
+      expect(fraction * 365).toBeCloseTo(1 + 2 * 0.5, 10);
+    });
+
+    it("treats Saturday UTC as the weekend even while it is Friday in New York", () => {
+      const fraction = yearFraction(new Date("2024-03-02T02:00:00Z"), new Date("2024-03-02T04:00:00Z"), "crypto", 0.5);
+      expect(fraction * 365).toBeCloseTo(hours(2) * 0.5, 10);
+    });
+  });
+
+  describe("252 trading-day convention", () => {
+    it("counts New York trading days, skipping weekends and Independence Day", () => {
+      // Wednesday 16:00 to Monday 16:00 in New York: 8 hours, a holiday, a full Friday, a weekend and 16 hours
+      const fraction = yearFraction(new Date("2024-07-03T20:00:00Z"), new Date("2024-07-08T20:00:00Z"), "trading252");
+      expect(fraction * 252).toBeCloseTo(hours(8) + 1 + hours(16), 10);
+    });
+
+    it("counts Friday evening in New York even though it is Saturday in UTC", () => {
+      const fraction = yearFraction(new Date("2024-03-02T02:00:00Z"), new Date("2024-03-02T04:00:00Z"), "trading252");
+      expect(fraction * 252).toBeCloseTo(hours(2), 10);
+    });
+
+    it("closes on Good Friday and the observed holidays", () => {
+      expect(isTradingDay(new Date("2024-03-29T15:00:00Z"))).toBe(false); // Good Friday
+      expect(isTradingDay(new Date("2022-12-26T15:00:00Z"))).toBe(false); // Christmas, observed on Monday
+      expect(isTradingDay(new Date("2021-07-05T15:00:00Z"))).toBe(false); // Independence Day, observed on Monday
+      expect(isTradingDay(new Date("2024-03-28T15:00:00Z"))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Day-Count and Trading-Time Conventions
+ *
+ * This utility turns a span of time into the year fraction used by the pricing
+ * models. Money-market conventions count actual time over a 365- or 360-day year,
+ * equity options count only exchange trading days over a 252-day year, and crypto
+ * markets trade around the clock with optionally down-weighted weekends.
+ */
+
+import { getZonedTime, zonedTimeToDate } from "./expiryCalendar";
+
+export type DayCountConvention = "act365" | "act360" | "trading252" | "crypto";
+export type ThetaUnit = "calendar-day" | "trading-day" | "hour";
+
+export const dayCountConventions: Record<DayCountConvention, {
+  label: string;
+  description: string;
+  daysPerYear: number;
+}> = {
+  act365: {
+    label: "ACT/365",
+    description: "Actual elapsed time over a 365-day year.",
+    daysPerYear: 365
+  },
+  act360: {
+    label: "ACT/360",
+    description: "Actual elapsed time over a 360-day year, as used for money-market rates.",
+    daysPerYear: 360
+  },
+  trading252: {
+    label: "252 Trading Days",
+    description: "Only New York weekdays outside US exchange holidays count, over a 252-day year.",
+    daysPerYear: 252
+  },
+  crypto: {
+    label: "Crypto 24/7",
+    description: "Every hour counts over a 365-day year, with UTC weekend hours optionally weighted for lower weekend variance.",
+    daysPerYear: 365
+  }
+};
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Trading days follow the New York exchange calendar; crypto weekends are UTC weekends
+const EXCHANGE_TIME_ZONE = "America/New_York";
+const CRYPTO_TIME_ZONE = "UTC";
+
+// Cache of holiday dates by year, keyed as "month-day"
+const holidayCache = new Map<number, Set<string>>();
+
+// Cache of the instant each calendar date starts in a time zone, since resolving a zone is slow
+const midnightCache = new Map<string, Map<number, number>>();
+
+// Calendar dates are held as UTC midnights, so their weekday never depends on the browser's zone
+const calendarDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+// Easter Sunday by the anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return calendarDate(year, month - 1, day);
+}
+
+// The nth given weekday of a month, or the last one when n is -1
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = calendarDate(year, month + 1, 0);
+    return calendarDate(year, month, last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = calendarDate(year, month, 1);
+  return calendarDate(year, month, 1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+}
+
+// Fixed-date holidays move to Friday when on a Saturday and to Monday when on a Sunday
+function observed(date: Date): Date {
+  const day = date.getUTCDay();
+  if (day === 6) return calendarDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - 1);
+  if (day === 0) return calendarDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  return date;
+}
+
+// US exchange (NYSE) full-day holidays for a year
+function getExchangeHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const easter = easterSunday(year);
+  const holidays = [
+    nthWeekday(year, 0, 1, 3),  // Martin Luther King Jr. Day
+    nthWeekday(year, 1, 1, 3),  // Washington's Birthday
+    calendarDate(year, easter.getUTCMonth(), easter.getUTCDate() - 2),  // Good Friday
+    nthWeekday(year, 4, 1, -1), // Memorial Day
+    observed(calendarDate(year, 6, 4)),  // Independence Day
+    nthWeekday(year, 8, 1, 1),  // Labor Day
+    nthWeekday(year, 10, 4, 4), // Thanksgiving Day
+    observed(calendarDate(year, 11, 25)) // Christmas Day
+  ];
+  // New Year's Day is not observed on the preceding Friday
+  const newYear = calendarDate(year, 0, 1);
+  if (newYear.getUTCDay() !== 6) {
+    holidays.push(observed(newYear));
+  }
+  if (year >= 2022) {
+    holidays.push(observed(calendarDate(year, 5, 19))); // Juneteenth
+  }
+
+  const keys = new Set(holidays.map((date) => `${date.getUTCMonth()}-${date.getUTCDate()}`));
+  holidayCache.set(year, keys);
+  return keys;
+}
+
+const isWeekend = (day: Date) => day.getUTCDay() === 0 || day.getUTCDay() === 6;
+
+// Whether a calendar date is a weekday on which US exchanges are open
+function isExchangeDay(day: Date): boolean {
+  return !isWeekend(day) && !getExchangeHolidays(day.getUTCFullYear()).has(`${day.getUTCMonth()}-${day.getUTCDate()}`);
+}
+
+// Whether an instant falls on a New York weekday on which US exchanges are open
+export function isTradingDay(date: Date): boolean {
+  const { year, month, day } = getZonedTime(date, EXCHANGE_TIME_ZONE);
+  return isExchangeDay(calendarDate(year, month, day));
+}
+
+// Instant at which a calendar date starts in a time zone
+function midnightIn(day: Date, timeZone: string): number {
+  let midnights = midnightCache.get(timeZone);
+  if (!midnights) {
+    midnights = new Map();
+    midnightCache.set(timeZone, midnights);
+  }
+  let midnight = midnights.get(day.getTime());
+  if (midnight === undefined) {
+    midnight = zonedTimeToDate(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), 0, 0, timeZone).getTime();
+    midnights.set(day.getTime(), midnight);
+  }
+  return midnight;
+}
+
+// Days between two instants, with each calendar day in a time zone weighted by a function of its date
+function weightedDays(start: Date, end: Date, timeZone: string, weightOf: (day: Date) => number): number {
+  let total = 0;
+  let cursor = start.getTime();
+  const endTime = end.getTime();
+  const { year, month, day: startDay } = getZonedTime(start, timeZone);
+  let day = calendarDate(year, month, startDay);
+  while (cursor < endTime) {
+    const nextDay = calendarDate(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + 1);
+    const segmentEnd = Math.min(midnightIn(nextDay, timeZone), endTime);
+    total += (segmentEnd - cursor) / MS_PER_DAY * weightOf(day);
+    cursor = segmentEnd;
+    day = nextDay;
+  }
+  return total;
+}
+
+// Year fraction between two instants under a convention
+export function yearFraction(
+  start: Date,                     // Valuation time
+  end: Date,                       // Expiry time
+  convention: DayCountConvention = "act365",
+  weekendWeight: number = 1        // Weight of weekend hours under the crypto convention
+): number {
+  const { daysPerYear } = dayCountConventions[convention];
+
+  // Expired options keep a negative fraction so callers can reject them
+  if (end <= start) {
+    return (end.getTime() - start.getTime()) / MS_PER_DAY / daysPerYear;
+  }
+
+  switch (convention) {
+    case "trading252":
+      return weightedDays(start, end, EXCHANGE_TIME_ZONE, (day) => (isExchangeDay(day) ? 1 : 0)) / daysPerYear;
+    case "crypto":
+      return weightedDays(start, end, CRYPTO_TIME_ZONE, (day) => (isWeekend(day) ? weekendWeight : 1)) / daysPerYear;
+    default:
+      return (end.getTime() - start.getTime()) / MS_PER_DAY / daysPerYear;
+  }
+}
+
+// Year fraction of a length of time from now. Under the trading-day convention a
+// duration is trading time, so it is not cut short by a weekend or holiday.
+export function durationYearFraction(
+  durationMs: number,              // Length of time in milliseconds
+  convention: DayCountConvention = "act365",
+  weekendWeight: number = 1        // Weight of weekend hours under the crypto convention
+): number {
+  if (convention === "trading252") {
+    return durationMs / MS_PER_DAY / dayCountConventions.trading252.daysPerYear;
+  }
+  const now = new Date();
+  return yearFraction(now, new Date(now.getTime() + durationMs), convention, weekendWeight);
+}
+
+// Convert theta from the Greeks' per-1/365-year units to a chosen unit of time. A calendar day
+// is on average 1/365 of a year (1/360 under ACT/360), and trading sessions are 365/252 calendar days apart.
+export function convertTheta(theta: number, unit: ThetaUnit, convention: DayCountConvention): number {
+  const thetaPerYear = theta * 365;
+  const calendarDay = convention === "act360" ? 1 / 360 : 1 / 365;
+
+  switch (unit) {
+    case "trading-day":
+      return thetaPerYear * calendarDay * 365 / 252;
+    case "hour":
+      return thetaPerYear * calendarDay / 24;
+    default:
+      return thetaPerYear * calendarDay;
+  }
+}
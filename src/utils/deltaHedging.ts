@@ -0,0 +1,189 @@
+/**
+ * Delta-Hedging Simulator
+ *
+ * This utility simulates an option held to expiry and delta-hedged at discrete
+ * intervals. Prices follow geometric Brownian motion at a realized volatility that
+ * can differ from the implied volatility the option is priced and hedged at, so the
+ * hedged P&L shows the gamma-scalping profit or loss of the gap between them, plus
+ * the noise from hedging discretely and the cost of each rebalancing trade.
+ * Every rebalance on every path recomputes delta, so hourly hedging over months
+ * takes millions of evaluations; workers/deltaHedge.worker.ts runs it off the main thread.
+ */
+
+import { calculateGreeks, calculateOptionPremium, OptionPricingInputs } from "./blackScholes";
+import { createRandomGenerator } from "./random";
+
+export type RebalanceFrequency = "hourly" | "four-hourly" | "daily" | "weekly";
+
+export const rebalanceFrequencies: Record<RebalanceFrequency, { label: string; hours: number }> = {
+  hourly: { label: "Hourly", hours: 1 },
+  "four-hourly": { label: "Every 4 hours", hours: 4 },
+  daily: { label: "Daily", hours: 24 },
+  weekly: { label: "Weekly", hours: 168 }
+};
+
+export interface HedgeSimulationSettings {
+  side: "long" | "short";                 // Side of the option being hedged
+  realizedVolatility: number;             // Volatility the paths are simulated at, as a decimal
+  rebalanceFrequency: RebalanceFrequency;
+  transactionCost: number;                // Cost of each trade as a fraction of the notional traded
+  paths: number;                          // Number of simulated paths
+  seed: number;                           // Seed for reproducible results
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// A simulated price path, sampled for charting
+export interface SamplePath {
+  days: number[];       // Days from now of each sampled point
+  prices: number[];
+}
+
+export interface HedgeSimulationResult {
+  mean: number;                  // Average hedged P&L at expiry, per unit of the underlying
+  standardDeviation: number;
+  percentile5: number;
+  percentile95: number;
+  expectedPnl: number;           // Hedged P&L under continuous, costless rebalancing
+  averageCost: number;           // Average transaction costs paid per path
+  rebalances: number;            // Hedge trades on each path after the opening one
+  histogram: HistogramBin[];
+  samplePaths: SamplePath[];
+}
+
+// Message protocol between the UI and the simulation worker
+export interface HedgeSimulationRequest {
+  inputs: OptionPricingInputs;   // Market inputs, with the implied volatility used for pricing and hedging
+  settings: HedgeSimulationSettings;
+}
+
+export type HedgeSimulationResponse =
+  | { result: HedgeSimulationResult }
+  | { error: string };
+
+const HISTOGRAM_BINS = 30;
+const SAMPLE_PATH_COUNT = 5;
+const SAMPLE_POINTS = 100;
+const MAX_STEPS = 10000;
+
+// Bucket values into equal-width bins between their extremes
+export function buildHistogram(values: number[], bins: number = HISTOGRAM_BINS): HistogramBin[] {
+  if (values.length === 0) {
+    return [];
+  }
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / bins || 1;
+  const histogram = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const value of values) {
+    histogram[Math.min(bins - 1, Math.floor((value - min) / width))].count += 1;
+  }
+  return histogram;
+}
+
+// Value at a fraction of the way through sorted values
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))))];
+
+// Simulate delta-hedging an option to expiry over many paths
+export function simulateDeltaHedging(
+  inputs: OptionPricingInputs,
+  settings: HedgeSimulationSettings
+): HedgeSimulationResult {
+  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall } = inputs;
+  const dividendYield = inputs.dividendYield ?? 0;
+  const realizedVolatility = settings.realizedVolatility;
+
+  // Check for invalid inputs
+  if (
+    spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 ||
+    realizedVolatility <= 0 || settings.paths <= 0
+  ) {
+    return {
+      mean: 0, standardDeviation: 0, percentile5: 0, percentile95: 0, expectedPnl: 0,
+      averageCost: 0, rebalances: 0, histogram: [], samplePaths: []
+    };
+  }
+
+  const random = createRandomGenerator(settings.seed);
+  const direction = settings.side === "long" ? 1 : -1;
+  const intervalYears = rebalanceFrequencies[settings.rebalanceFrequency].hours / (365 * 24);
+  const steps = Math.min(MAX_STEPS, Math.max(1, Math.ceil(timeToExpiry / intervalYears - 1e-9)));
+  const dt = timeToExpiry / steps;
+  const drift = (riskFreeRate - dividendYield - 0.5 * realizedVolatility * realizedVolatility) * dt;
+  const diffusion = realizedVolatility * Math.sqrt(dt);
+  const growth = Math.exp(riskFreeRate * dt);
+  const yieldGrowth = Math.exp(dividendYield * dt) - 1;
+  const sampleEvery = Math.max(1, Math.ceil(steps / SAMPLE_POINTS));
+
+  const premium = calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+  // Holding delta at the implied volatility captures the realized-implied gap in option value
+  const realizedPremium = calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, realizedVolatility, riskFreeRate, isCall, dividendYield);
+  const hedgeUnits = (price: number, remaining: number) =>
+    -direction * calculateGreeks(price, strikePrice, remaining, volatility, riskFreeRate, isCall, dividendYield).delta;
+
+  const pnls: number[] = [];
+  const samplePaths: SamplePath[] = [];
+  let totalCost = 0;
+
+  for (let path = 0; path < settings.paths; path++) {
+    let price = spotPrice;
+    let units = hedgeUnits(price, timeToExpiry);
+    let cost = Math.abs(units) * price * settings.transactionCost;
+    let cash = -direction * premium - units * price - cost;
+    const sample: SamplePath | null = path < SAMPLE_PATH_COUNT ? { days: [0], prices: [price] } : null;
+
+    for (let step = 1; step <= steps; step++) {
+      price *= Math.exp(drift + diffusion * random.normal());
+      // Cash earns the risk-free rate and the hedge earns the asset's yield
+      cash = cash * growth + units * price * yieldGrowth;
+
+      // The hedge is rebalanced at every step before expiry
+      if (step < steps) {
+        const target = hedgeUnits(price, timeToExpiry - step * dt);
+        const tradeCost = Math.abs(target - units) * price * settings.transactionCost;
+        cash -= (target - units) * price + tradeCost;
+        cost += tradeCost;
+        units = target;
+      }
+
+      if (sample && (step % sampleEvery === 0 || step === steps)) {
+        sample.days.push(step * dt * 365);
+        sample.prices.push(price);
+      }
+    }
+
+    // At expiry the option pays off and the hedge is closed out
+    const payoff = isCall ? Math.max(0, price - strikePrice) : Math.max(0, strikePrice - price);
+    const closeCost = Math.abs(units) * price * settings.transactionCost;
+    cost += closeCost;
+    pnls.push(cash + units * price - closeCost + direction * payoff);
+    totalCost += cost;
+    if (sample) {
+      samplePaths.push(sample);
+    }
+  }
+
+  const mean = pnls.reduce((sum, pnl) => sum + pnl, 0) / pnls.length;
+  const variance = pnls.length > 1
+    ? pnls.reduce((sum, pnl) => sum + (pnl - mean) * (pnl - mean), 0) / (pnls.length - 1)
+    : 0;
+  const sorted = [...pnls].sort((a, b) => a - b);
+
+  return {
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    percentile5: percentile(sorted, 0.05),
+    percentile95: percentile(sorted, 0.95),
+    // Valued at expiry, like the simulated P&L
+    expectedPnl: direction * (realizedPremium - premium) * Math.exp(riskFreeRate * timeToExpiry),
+    averageCost: totalCost / pnls.length,
+    rebalances: steps - 1,
+    histogram: buildHistogram(pnls),
+    samplePaths
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Exchange Expiry Calendar
+ *
+ * This utility generates the listed expiries of crypto option exchanges. Deribit
+ * settles every option at 08:00 UTC: dailies on each day, weeklies on Fridays,
+ * monthlies on the last Friday of the month and quarterlies on the last Friday of
+ * March, June, September and December. It also converts between instants and
+ * wall-clock times in a chosen time zone, so expiries can be entered outside the
+ * browser's local zone.
+ */
+
+export type ExpiryCycle = "daily" | "weekly" | "monthly" | "quarterly";
+
+export interface ExpirySchedule {
+  exchange: string;
+  settlementHourUtc: number;  // Hour of day in UTC at which options settle
+  cycles: ExpiryCycle[];      // Expiry cycles listed for the asset
+}
+
+export interface ListedExpiry {
+  date: Date;
+  cycle: ExpiryCycle;         // Longest cycle the expiry belongs to
+}
+
+// Listed option calendars by asset
+export const expirySchedules: Record<string, ExpirySchedule> = {
+  BTC: { exchange: "Deribit", settlementHourUtc: 8, cycles: ["daily", "weekly", "monthly", "quarterly"] },
+  ETH: { exchange: "Deribit", settlementHourUtc: 8, cycles: ["daily", "weekly", "monthly", "quarterly"] },
+  SOL: { exchange: "Deribit", settlementHourUtc: 8, cycles: ["daily", "weekly", "monthly", "quarterly"] }
+};
+
+// Calendar used for assets without listed options
+export const defaultExpirySchedule: ExpirySchedule = {
+  exchange: "Deribit conventions",
+  settlementHourUtc: 8,
+  cycles: ["daily", "weekly", "monthly", "quarterly"]
+};
+
+export const expiryCycleLabels: Record<ExpiryCycle, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly"
+};
+
+// Time zones offered for entering expiries; "local" is the browser's zone
+export const expiryTimeZones: { value: string; label: string }[] = [
+  { value: "UTC", label: "UTC" },
+  { value: "local", label: "Local (browser)" },
+  { value: "America/New_York", label: "New York" },
+  { value: "Europe/London", label: "London" },
+  { value: "Asia/Singapore", label: "Singapore" },
+  { value: "Asia/Tokyo", label: "Tokyo" }
+];
+
+// Number of upcoming expiries Deribit keeps listed for each cycle
+const LISTED_COUNTS: Record<ExpiryCycle, number> = {
+  daily: 4,
+  weekly: 4,
+  monthly: 3,
+  quarterly: 4
+};
+
+const FRIDAY = 5;
+
+export function getExpirySchedule(asset: string): ExpirySchedule {
+  return expirySchedules[asset] ?? defaultExpirySchedule;
+}
+
+// Settlement instant on a UTC calendar date
+function settlementOn(year: number, month: number, day: number, hourUtc: number): Date {
+  return new Date(Date.UTC(year, month, day, hourUtc));
+}
+
+// Last Friday of a UTC calendar month
+function lastFridayOfMonth(year: number, month: number): number {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  return lastDay.getUTCDate() - ((lastDay.getUTCDay() - FRIDAY + 7) % 7);
+}
+
+// First expiry of a cycle strictly after an instant
+export function nextExpiry(
+  cycle: ExpiryCycle,
+  now: Date = new Date(),
+  settlementHourUtc: number = 8
+): Date {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+
+  switch (cycle) {
+    case "daily": {
+      const today = settlementOn(year, month, day, settlementHourUtc);
+      return today > now ? today : settlementOn(year, month, day + 1, settlementHourUtc);
+    }
+    case "weekly": {
+      const daysToFriday = (FRIDAY - now.getUTCDay() + 7) % 7;
+      const friday = settlementOn(year, month, day + daysToFriday, settlementHourUtc);
+      return friday > now ? friday : settlementOn(year, month, day + daysToFriday + 7, settlementHourUtc);
+    }
+    default: {
+      // Monthlies settle every month and quarterlies every third month, on the last Friday
+      for (let offset = 0; offset < 15; offset++) {
+        const candidateMonth = month + offset;
+        const monthStart = new Date(Date.UTC(year, candidateMonth, 1));
+        if (cycle === "quarterly" && monthStart.getUTCMonth() % 3 !== 2) {
+          continue;
+        }
+        const expiry = settlementOn(
+          monthStart.getUTCFullYear(),
+          monthStart.getUTCMonth(),
+          lastFridayOfMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth()),
+          settlementHourUtc
+        );
+        if (expiry > now) {
+          return expiry;
+        }
+      }
+      return settlementOn(year + 1, month, day, settlementHourUtc);
+    }
+  }
+}
+
+// Longest cycle an expiry date belongs to
+function cycleOf(date: Date): ExpiryCycle {
+  if (date.getUTCDay() !== FRIDAY) {
+    return "daily";
+  }
+  if (date.getUTCDate() !== lastFridayOfMonth(date.getUTCFullYear(), date.getUTCMonth())) {
+    return "weekly";
+  }
+  return date.getUTCMonth() % 3 === 2 ? "quarterly" : "monthly";
+}
+
+// Upcoming listed expiries for an asset, in date order
+export function generateExpiryCalendar(asset: string, now: Date = new Date()): ListedExpiry[] {
+  const schedule = getExpirySchedule(asset);
+  const expiries = new Map<number, Date>();
+
+  for (const cycle of schedule.cycles) {
+    let cursor = now;
+    for (let i = 0; i < LISTED_COUNTS[cycle]; i++) {
+      const expiry = nextExpiry(cycle, cursor, schedule.settlementHourUtc);
+      expiries.set(expiry.getTime(), expiry);
+      cursor = expiry;
+    }
+  }
+
+  return Array.from(expiries.values())
+    .sort((a, b) => a.getTime() - b.getTime())
+    .map((date) => ({ date, cycle: cycleOf(date) }));
+}
+
+// Formatters by time zone, since creating one is slow
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock date and time of an instant in a time zone
+export function getZonedTime(date: Date, timeZone: string): {
+  year: number;
+  month: number;   // 0-11, as in Date
+  day: number;
+  hour: number;
+  minute: number;
+} {
+  if (timeZone === "local") {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes()
+    };
+  }
+  if (timeZone === "UTC") {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth(),
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes()
+    };
+  }
+
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric"
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: part("year"),
+    month: part("month") - 1,
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute")
+  };
+}
+
+// Instant at which a time zone's clock shows a given wall-clock date and time
+export function zonedTimeToDate(
+  year: number,
+  month: number,     // 0-11, as in Date
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  if (timeZone === "local") {
+    return new Date(year, month, day, hour, minute);
+  }
+  if (timeZone === "UTC") {
+    return new Date(Date.UTC(year, month, day, hour, minute));
+  }
+
+  const wallClock = Date.UTC(year, month, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedTime(new Date(instant), timeZone);
+    return Date.UTC(zoned.year, zoned.month, zoned.day, zoned.hour, zoned.minute) - Math.floor(instant / 60000) * 60000;
+  };
+
+  // Correct once more in case the first guess falls on the other side of a daylight-saving change
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess));
+}
@@ -3,5 +3,12 @@ export const greekDescriptions = {
   gamma: "Measures how much delta changes when the underlying price changes by $1",
   theta: "Measures how much the option price changes as time passes (time decay)",
   vega: "Measures how much the option price changes when implied volatility changes by 1%",
-  rho: "Measures how much the option price changes when interest rates change by 1%"
-}; 
\ No newline at end of file
+  rho: "Measures how much the option price changes when interest rates change by 1%",
+  vanna: "Measures how much delta changes when implied volatility changes by 1%",
+  volga: "Measures how much vega changes when implied volatility changes by 1% (also called vomma)",
+  charm: "Measures how much delta changes as one day passes (delta decay)",
+  speed: "Measures how much gamma changes when the underlying price changes by $1",
+  color: "Measures how much gamma changes as one day passes (gamma decay)",
+  zomma: "Measures how much gamma changes when implied volatility changes by 1%",
+  veta: "Measures how much vega changes as one day passes (vega decay)"
+};
@@ -0,0 +1,164 @@
+/**
+ * Heston Stochastic Volatility Model
+ *
+ * This utility prices European options under the Heston (1993) model, where
+ * variance follows a mean-reverting square-root process correlated with the
+ * underlying. Prices come from the Lewis (2001) single-integral formula over
+ * the characteristic function, using the Albrecher et al. (2007) "little trap"
+ * form to avoid branch-cut discontinuities. Greeks use finite differences.
+ */
+
+import { calculateGreeks } from "./blackScholes";
+
+export interface HestonParameters {
+  kappa: number;  // Speed of mean reversion of the variance
+  theta: number;  // Long-run variance
+  xi: number;     // Volatility of the variance (vol of vol)
+  rho: number;    // Correlation between the underlying and its variance
+  v0: number;     // Initial variance
+}
+
+// Minimal complex arithmetic for the characteristic function
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const complex = (re: number, im: number = 0): Complex => ({ re, im });
+const add = (a: Complex, b: Complex): Complex => complex(a.re + b.re, a.im + b.im);
+const sub = (a: Complex, b: Complex): Complex => complex(a.re - b.re, a.im - b.im);
+const mul = (a: Complex, b: Complex): Complex =>
+  complex(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+const div = (a: Complex, b: Complex): Complex => {
+  const denominator = b.re * b.re + b.im * b.im;
+  return complex((a.re * b.re + a.im * b.im) / denominator, (a.im * b.re - a.re * b.im) / denominator);
+};
+const exp = (a: Complex): Complex => {
+  const magnitude = Math.exp(a.re);
+  return complex(magnitude * Math.cos(a.im), magnitude * Math.sin(a.im));
+};
+const log = (a: Complex): Complex => complex(Math.log(Math.hypot(a.re, a.im)), Math.atan2(a.im, a.re));
+const sqrt = (a: Complex): Complex => {
+  const magnitude = Math.sqrt(Math.hypot(a.re, a.im));
+  const angle = Math.atan2(a.im, a.re) / 2;
+  return complex(magnitude * Math.cos(angle), magnitude * Math.sin(angle));
+};
+const scale = (a: Complex, factor: number): Complex => complex(a.re * factor, a.im * factor);
+
+// Characteristic function of ln(S_T / S) - (r - q) * T, evaluated at a complex argument
+function hestonCharacteristicFunction(u: Complex, timeToExpiry: number, params: HestonParameters): Complex {
+  const { kappa, theta, xi, rho, v0 } = params;
+  const iu = complex(-u.im, u.re);
+
+  // β = κ - ρξiu, d = √(β² + ξ²(iu + u²))
+  const beta = sub(complex(kappa), scale(iu, rho * xi));
+  const d = sqrt(add(mul(beta, beta), scale(add(iu, mul(u, u)), xi * xi)));
+
+  // Little trap: g = (β - d) / (β + d), which keeps the complex log on its principal branch
+  const betaMinusD = sub(beta, d);
+  const g = div(betaMinusD, add(beta, d));
+  const expMinusDT = exp(scale(d, -timeToExpiry));
+  const oneMinusGExp = sub(complex(1), mul(g, expMinusDT));
+
+  const C = scale(
+    sub(scale(betaMinusD, timeToExpiry), scale(log(div(oneMinusGExp, sub(complex(1), g))), 2)),
+    kappa * theta / (xi * xi)
+  );
+  const D = div(scale(mul(betaMinusD, sub(complex(1), expMinusDT)), 1 / (xi * xi)), oneMinusGExp);
+
+  return exp(add(C, scale(D, v0)));
+}
+
+// Heston price of a European option
+export function calculateHestonPremium(
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  params: HestonParameters, // Heston model parameters
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || params.v0 < 0 || params.theta < 0 || params.xi <= 0) {
+    return 0;
+  }
+
+  // Lewis: C = S * e^(-qt) - √(SK) * e^(-(r+q)t/2) / π * ∫ Re[e^(iuk) * φ(u - i/2)] / (u² + 1/4) du
+  const k = Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield) * timeToExpiry;
+  const integrand = (u: number) => {
+    const phi = hestonCharacteristicFunction(complex(u, -0.5), timeToExpiry, params);
+    const rotated = mul(exp(complex(0, u * k)), phi);
+    return rotated.re / (u * u + 0.25);
+  };
+
+  // The integrand is peaked near zero and decays on a scale of 1 / (σ̄ * √t), so integrate over
+  // doubling segments until well past that scale
+  const averageVariance = Math.max(1e-4, 0.5 * (params.v0 + params.theta));
+  const upperLimit = Math.min(8192, Math.max(64, 40 / Math.sqrt(averageVariance * timeToExpiry)));
+  let integral = integrateSimpson(integrand, 0, 1, 128);
+  for (let a = 1; a < upperLimit; a *= 2) {
+    integral += integrateSimpson(integrand, a, 2 * a, 128);
+  }
+
+  const call = spotPrice * Math.exp(-dividendYield * timeToExpiry) -
+    Math.sqrt(spotPrice * strikePrice) * Math.exp(-0.5 * (riskFreeRate + dividendYield) * timeToExpiry) * integral / Math.PI;
+
+  if (isCall) {
+    return Math.max(0, call);
+  }
+  // Put-call parity
+  return Math.max(0, call - spotPrice * Math.exp(-dividendYield * timeToExpiry) + strikePrice * Math.exp(-riskFreeRate * timeToExpiry));
+}
+
+// Composite Simpson's rule over an even number of intervals
+function integrateSimpson(f: (x: number) => number, a: number, b: number, intervals: number): number {
+  const h = (b - a) / intervals;
+  let sum = f(a) + f(b);
+  for (let i = 1; i < intervals; i++) {
+    sum += f(a + i * h) * (i % 2 === 0 ? 2 : 4);
+  }
+  return sum * h / 3;
+}
+
+// Calculate Heston Greeks by central finite differences
+export function calculateHestonGreeks(
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  params: HestonParameters, // Heston model parameters
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const price = (s: number, t: number, rate: number, p: HestonParameters) =>
+    calculateHestonPremium(s, strikePrice, t, rate, isCall, p, dividendYield);
+
+  const base = price(spotPrice, timeToExpiry, riskFreeRate, params);
+  const ds = spotPrice * 1e-3;
+  const up = price(spotPrice + ds, timeToExpiry, riskFreeRate, params);
+  const down = price(spotPrice - ds, timeToExpiry, riskFreeRate, params);
+  const dt = Math.min(1 / 365, timeToExpiry / 2);
+
+  // Vega shifts both the initial and long-run volatility by one point, comparable to Black-Scholes vega
+  const shiftVolatility = (shift: number): HestonParameters => ({
+    ...params,
+    v0: Math.pow(Math.max(0, Math.sqrt(params.v0) + shift), 2),
+    theta: Math.pow(Math.max(0, Math.sqrt(params.theta) + shift), 2)
+  });
+
+  return {
+    delta: (up - down) / (2 * ds),
+    gamma: (up - 2 * base + down) / (ds * ds),
+    theta: (price(spotPrice, timeToExpiry - dt, riskFreeRate, params) - base) / (dt * 365),
+    vega: (price(spotPrice, timeToExpiry, riskFreeRate, shiftVolatility(0.01)) -
+      price(spotPrice, timeToExpiry, riskFreeRate, shiftVolatility(-0.01))) / 2,
+    rho: (price(spotPrice, timeToExpiry, riskFreeRate + 0.01, params) -
+      price(spotPrice, timeToExpiry, riskFreeRate - 0.01, params)) / 2
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { calculateGreeks, calculateHigherOrderGreeks, calculateOptionPremium } from "./blackScholes";
+import { toInverseGreeks, toInverseHigherOrderGreeks } from "./inverse";
+
+interface InverseFixture {
+  name: string;
+  spotPrice: number;
+  strikePrice: number;
+  timeToExpiry: number;
+  volatility: number;
+  riskFreeRate: number;
+}
+
+const fixtures: InverseFixture[] = [
+  { name: "at the money", spotPrice: 60000, strikePrice: 60000, timeToExpiry: 30 / 365, volatility: 0.6, riskFreeRate: 0 },
+  { name: "out of the money", spotPrice: 3000, strikePrice: 3600, timeToExpiry: 90 / 365, volatility: 0.8, riskFreeRate: 0.05 }
+];
+
+// Coin Greeks of a Deribit-style option, with the USD Greeks from Black-Scholes
+const coinGreeks = (fixture: InverseFixture, isCall: boolean, bump: Partial<InverseFixture> = {}) => {
+  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate } = { ...fixture, ...bump };
+  return toInverseGreeks(
+    calculateGreeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall),
+    calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall),
+    spotPrice
+  );
+};
+
+describe("toInverseHigherOrderGreeks", () => {
+  describe.each(fixtures)("$name", (fixture) => {
+    it.each([true, false])("matches finite differences of the coin Greeks (call: %s)", (isCall) => {
+      const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate } = fixture;
+      const higherOrder = toInverseHigherOrderGreeks(
+        calculateHigherOrderGreeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall),
+        calculateGreeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall),
+        calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall),
+        spotPrice
+      );
+
+      const dS = spotPrice * 1e-4;
+      const dVol = 1e-4;
+      const dT = 1e-5;
+      const upS = coinGreeks(fixture, isCall, { spotPrice: spotPrice + dS });
+      const downS = coinGreeks(fixture, isCall, { spotPrice: spotPrice - dS });
+      const upVol = coinGreeks(fixture, isCall, { volatility: volatility + dVol });
+      const downVol = coinGreeks(fixture, isCall, { volatility: volatility - dVol });
+      const upT = coinGreeks(fixture, isCall, { timeToExpiry: timeToExpiry + dT });
+      const downT = coinGreeks(fixture, isCall, { timeToExpiry: timeToExpiry - dT });
+
+      // Volatility sensitivities are per 1%, time sensitivities per calendar day passing
+      const perVol = (up: number, down: number) => (up - down) / (2 * dVol) / 100;
+      const perDay = (up: number, down: number) => -(up - down) / (2 * dT) / 365;
+      const expected = {
+        vanna: perVol(upVol.delta, downVol.delta),
+        volga: perVol(upVol.vega, downVol.vega),
+        charm: perDay(upT.delta, downT.delta),
+        speed: (upS.gamma - downS.gamma) / (2 * dS),
+        color: perDay(upT.gamma, downT.gamma),
+        zomma: perVol(upVol.gamma, downVol.gamma),
+        veta: perDay(upT.vega, downT.vega)
+      };
+
+      for (const [key, value] of Object.entries(expected)) {
+        const actual = higherOrder[key as keyof typeof higherOrder];
+        // Coin values are small, so the difference is compared relative to the expected value
+        expect(Math.abs(actual - value) / Math.abs(value), key).toBeLessThan(1e-4);
+      }
+    });
+  });
+});
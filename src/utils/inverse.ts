@@ -0,0 +1,71 @@
+/**
+ * Inverse (Coin-Margined) Option Conventions
+ *
+ * Deribit BTC and ETH options are quoted and settled in the coin rather than in USD.
+ * An inverse option pays the USD payoff converted at the expiry price, so its coin
+ * value is the USD value divided by the underlying price. This utility converts USD
+ * premiums, Greeks and payoffs to those coin terms.
+ */
+
+import { calculateGreeks, calculateHigherOrderGreeks } from "./blackScholes";
+
+type Greeks = ReturnType<typeof calculateGreeks>;
+type HigherOrderGreeks = ReturnType<typeof calculateHigherOrderGreeks>;
+
+// Option premium in coin
+export function toInversePremium(usdPremium: number, underlyingPrice: number): number {
+  return underlyingPrice > 0 ? usdPremium / underlyingPrice : 0;
+}
+
+// Option Greeks in coin, with delta and gamma adjusted for the premium being paid in the coin
+export function toInverseGreeks(usdGreeks: Greeks, usdPremium: number, underlyingPrice: number): Greeks {
+  if (underlyingPrice <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  // Premium-adjusted delta: Δ - V / S. Holding the option means holding V / S of the coin less.
+  const delta = usdGreeks.delta - usdPremium / underlyingPrice;
+
+  return {
+    delta,
+    // Derivative of the premium-adjusted delta: Γ - (Δ - V / S) / S
+    gamma: usdGreeks.gamma - delta / underlyingPrice,
+    theta: usdGreeks.theta / underlyingPrice,
+    vega: usdGreeks.vega / underlyingPrice,
+    rho: usdGreeks.rho / underlyingPrice
+  };
+}
+
+// Higher-order Greeks in coin, differentiating the premium-adjusted delta and gamma above
+export function toInverseHigherOrderGreeks(
+  usdHigherOrderGreeks: HigherOrderGreeks,
+  usdGreeks: Greeks,
+  usdPremium: number,
+  underlyingPrice: number
+): HigherOrderGreeks {
+  if (underlyingPrice <= 0) {
+    return { vanna: 0, volga: 0, charm: 0, speed: 0, color: 0, zomma: 0, veta: 0 };
+  }
+
+  const { delta, gamma, theta, vega } = toInverseGreeks(usdGreeks, usdPremium, underlyingPrice);
+  const S = underlyingPrice;
+  // Coin delta is Δ - V / S, so its sensitivities lose those of V / S: coin vega and theta
+  const vanna = usdHigherOrderGreeks.vanna - vega;
+  const charm = usdHigherOrderGreeks.charm - theta;
+
+  return {
+    vanna,
+    volga: usdHigherOrderGreeks.volga / S,
+    charm,
+    // Coin gamma is Γ - Δcoin / S, so its sensitivities lose those of Δcoin / S
+    speed: usdHigherOrderGreeks.speed - gamma / S + delta / (S * S),
+    color: usdHigherOrderGreeks.color - charm / S,
+    zomma: usdHigherOrderGreeks.zomma - vanna / S,
+    veta: usdHigherOrderGreeks.veta / S
+  };
+}
+
+// Payoff at expiry in coin for a given USD payoff
+export function toInversePayoff(usdPayoff: number, expiryPrice: number): number {
+  return expiryPrice > 0 ? usdPayoff / expiryPrice : 0;
+}
@@ -0,0 +1,243 @@
+/**
+ * Lattice Option Pricing Model
+ *
+ * This utility prices European and American options on a Cox-Ross-Rubinstein
+ * binomial tree or a Boyle trinomial tree. Delta, gamma and theta are read
+ * off the early tree nodes; vega and rho use bump-and-reprice.
+ */
+
+export type LatticeMethod = "binomial" | "trinomial";
+
+export interface LatticeOptions {
+  isAmerican: boolean;      // true allows early exercise at every node
+  method?: LatticeMethod;   // Tree type, binomial by default
+  steps?: number;           // Number of time steps in the tree
+}
+
+export interface ExerciseBoundaryPoint {
+  time: number;   // Time from now in years
+  price: number;  // Underlying price at which early exercise becomes optimal
+}
+
+export interface LatticeResult {
+  premium: number;               // Option value under the selected exercise style
+  europeanPremium: number;       // European value on the same tree
+  earlyExercisePremium: number;  // Extra value from the right to exercise early
+  greeks: {
+    delta: number;
+    gamma: number;
+    theta: number;  // Daily
+    vega: number;   // Per 1% change in volatility
+    rho: number;    // Per 1% change in interest rate
+  };
+  exerciseBoundary: ExerciseBoundaryPoint[];
+}
+
+interface TreeValuation {
+  value: number;
+  delta: number;
+  gamma: number;
+  theta: number;  // Annual
+  exerciseBoundary: ExerciseBoundaryPoint[];
+}
+
+const DEFAULT_STEPS = 200;
+
+// Roll a CRR binomial tree back from expiry
+function valueBinomialTree(
+  spotPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  isCall: boolean,
+  isAmerican: boolean,
+  dividendYield: number,
+  steps: number
+): TreeValuation {
+  const dt = timeToExpiry / steps;
+  const u = Math.exp(volatility * Math.sqrt(dt));
+  const d = 1 / u;
+  const p = (Math.exp((riskFreeRate - dividendYield) * dt) - d) / (u - d);
+  const discount = Math.exp(-riskFreeRate * dt);
+  const payoff = (price: number) => Math.max(0, isCall ? price - strikePrice : strikePrice - price);
+
+  // Option values at expiry, indexed by the number of up moves
+  let values = Array.from({ length: steps + 1 }, (_, j) => payoff(spotPrice * Math.pow(u, 2 * j - steps)));
+  const exerciseBoundary: ExerciseBoundaryPoint[] = [];
+  let stepOneValues: number[] = [];
+  let stepTwoValues: number[] = [];
+
+  for (let i = steps - 1; i >= 0; i--) {
+    const next = new Array<number>(i + 1);
+    let boundary: number | null = null;
+
+    for (let j = 0; j <= i; j++) {
+      const continuation = discount * (p * values[j + 1] + (1 - p) * values[j]);
+      const price = spotPrice * Math.pow(u, 2 * j - i);
+      const exercise = payoff(price);
+
+      if (isAmerican && exercise > continuation) {
+        next[j] = exercise;
+        // Calls exercise above the boundary, puts below it
+        if (boundary === null || (isCall ? price < boundary : price > boundary)) {
+          boundary = price;
+        }
+      } else {
+        next[j] = continuation;
+      }
+    }
+
+    if (boundary !== null) {
+      exerciseBoundary.push({ time: i * dt, price: boundary });
+    }
+    if (i === 2) stepTwoValues = next;
+    if (i === 1) stepOneValues = next;
+    values = next;
+  }
+
+  // Greeks from the first two layers of the tree (Hull, ch. 21)
+  const delta = (stepOneValues[1] - stepOneValues[0]) / (spotPrice * u - spotPrice * d);
+  const upDelta = (stepTwoValues[2] - stepTwoValues[1]) / (spotPrice * u * u - spotPrice);
+  const downDelta = (stepTwoValues[1] - stepTwoValues[0]) / (spotPrice - spotPrice * d * d);
+  const gamma = (upDelta - downDelta) / (0.5 * (spotPrice * u * u - spotPrice * d * d));
+  const theta = (stepTwoValues[1] - values[0]) / (2 * dt);
+
+  return {
+    value: values[0],
+    delta,
+    gamma,
+    theta,
+    exerciseBoundary: exerciseBoundary.reverse()
+  };
+}
+
+// Roll a Boyle trinomial tree back from expiry
+function valueTrinomialTree(
+  spotPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  isCall: boolean,
+  isAmerican: boolean,
+  dividendYield: number,
+  steps: number
+): TreeValuation {
+  const dt = timeToExpiry / steps;
+  const u = Math.exp(volatility * Math.sqrt(2 * dt));
+  const halfStepUp = Math.exp(volatility * Math.sqrt(dt / 2));
+  const halfStepDown = 1 / halfStepUp;
+  const drift = Math.exp((riskFreeRate - dividendYield) * dt / 2);
+  const pu = Math.pow((drift - halfStepDown) / (halfStepUp - halfStepDown), 2);
+  const pd = Math.pow((halfStepUp - drift) / (halfStepUp - halfStepDown), 2);
+  const pm = 1 - pu - pd;
+  const discount = Math.exp(-riskFreeRate * dt);
+  const payoff = (price: number) => Math.max(0, isCall ? price - strikePrice : strikePrice - price);
+
+  // Option values at expiry, indexed by k = j + steps for j in [-steps, steps]
+  let values = Array.from({ length: 2 * steps + 1 }, (_, k) => payoff(spotPrice * Math.pow(u, k - steps)));
+  const exerciseBoundary: ExerciseBoundaryPoint[] = [];
+  let stepOneValues: number[] = [];
+
+  for (let i = steps - 1; i >= 0; i--) {
+    const next = new Array<number>(2 * i + 1);
+    let boundary: number | null = null;
+
+    for (let k = 0; k <= 2 * i; k++) {
+      const continuation = discount * (pu * values[k + 2] + pm * values[k + 1] + pd * values[k]);
+      const price = spotPrice * Math.pow(u, k - i);
+      const exercise = payoff(price);
+
+      if (isAmerican && exercise > continuation) {
+        next[k] = exercise;
+        if (boundary === null || (isCall ? price < boundary : price > boundary)) {
+          boundary = price;
+        }
+      } else {
+        next[k] = continuation;
+      }
+    }
+
+    if (boundary !== null) {
+      exerciseBoundary.push({ time: i * dt, price: boundary });
+    }
+    if (i === 1) stepOneValues = next;
+    values = next;
+  }
+
+  // Greeks from the first layer of the tree
+  const delta = (stepOneValues[2] - stepOneValues[0]) / (spotPrice * u - spotPrice / u);
+  const upDelta = (stepOneValues[2] - stepOneValues[1]) / (spotPrice * u - spotPrice);
+  const downDelta = (stepOneValues[1] - stepOneValues[0]) / (spotPrice - spotPrice / u);
+  const gamma = (upDelta - downDelta) / (0.5 * (spotPrice * u - spotPrice / u));
+  const theta = (stepOneValues[1] - values[0]) / dt;
+
+  return {
+    value: values[0],
+    delta,
+    gamma,
+    theta,
+    exerciseBoundary: exerciseBoundary.reverse()
+  };
+}
+
+// Price a European or American option on a binomial or trinomial lattice
+export function calculateLatticePricing(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield: number, // Continuous dividend/staking yield as a decimal
+  options: LatticeOptions
+): LatticeResult {
+  const emptyResult: LatticeResult = {
+    premium: 0,
+    europeanPremium: 0,
+    earlyExercisePremium: 0,
+    greeks: { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 },
+    exerciseBoundary: []
+  };
+
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return emptyResult;
+  }
+
+  // The Greeks read off the tree need at least two steps
+  const steps = Math.max(3, Math.round(options.steps ?? DEFAULT_STEPS));
+  const valueTree = options.method === "trinomial" ? valueTrinomialTree : valueBinomialTree;
+  const price = (sigma: number, rate: number, isAmerican: boolean) =>
+    valueTree(spotPrice, strikePrice, timeToExpiry, sigma, rate, isCall, isAmerican, dividendYield, steps);
+
+  const valuation = price(volatility, riskFreeRate, options.isAmerican);
+  const european = options.isAmerican
+    ? price(volatility, riskFreeRate, false).value
+    : valuation.value;
+
+  // Vega and rho by central differences of 1% bumps. Below 1% volatility the down bump is
+  // clamped above zero, so vega is scaled by the width actually bumped.
+  const bump = 0.01;
+  const volatilityUp = volatility + bump;
+  const volatilityDown = Math.max(volatility - bump, 1e-4);
+  const vega = (price(volatilityUp, riskFreeRate, options.isAmerican).value -
+    price(volatilityDown, riskFreeRate, options.isAmerican).value) / (volatilityUp - volatilityDown) * 0.01;
+  const rho = (price(volatility, riskFreeRate + bump, options.isAmerican).value -
+    price(volatility, riskFreeRate - bump, options.isAmerican).value) / 2;
+
+  return {
+    premium: valuation.value,
+    europeanPremium: european,
+    earlyExercisePremium: Math.max(0, valuation.value - european),
+    greeks: {
+      delta: valuation.delta,
+      gamma: valuation.gamma,
+      theta: valuation.theta / 365,
+      vega,
+      rho
+    },
+    exerciseBoundary: valuation.exerciseBoundary
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Merton Jump-Diffusion Model
+ *
+ * This utility prices European options under Merton (1976), where the underlying
+ * diffuses with constant volatility and also jumps at Poisson-distributed times by
+ * lognormally distributed amounts. The price is a Poisson-weighted series of
+ * Black-Scholes prices, each conditional on a given number of jumps before expiry.
+ */
+
+import { calculateOptionPremium, calculateGreeks } from "./blackScholes";
+
+export interface MertonParameters {
+  jumpIntensity: number;   // Expected number of jumps per year
+  jumpMean: number;        // Mean of the log jump size as a decimal
+  jumpVolatility: number;  // Standard deviation of the log jump size as a decimal
+}
+
+// Black-Scholes terms of the series, each with its Poisson weight
+function mertonSeries(
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  params: MertonParameters
+): { weight: number; volatility: number; riskFreeRate: number }[] {
+  const { jumpIntensity, jumpMean, jumpVolatility } = params;
+
+  // Expected relative jump k = E[J - 1]; the drift is compensated by -λk
+  const k = Math.exp(jumpMean + 0.5 * jumpVolatility * jumpVolatility) - 1;
+  const poissonMean = jumpIntensity * (1 + k) * timeToExpiry;
+
+  const terms = [];
+  let weight = Math.exp(-poissonMean);
+  let cumulativeWeight = 0;
+  for (let n = 0; n < 200; n++) {
+    if (n > 0) {
+      weight *= poissonMean / n;
+    }
+    terms.push({
+      weight,
+      volatility: Math.sqrt(volatility * volatility + n * jumpVolatility * jumpVolatility / timeToExpiry),
+      riskFreeRate: riskFreeRate - jumpIntensity * k + n * Math.log(1 + k) / timeToExpiry
+    });
+    cumulativeWeight += weight;
+
+    // Stop once the remaining Poisson probability is negligible
+    if (n > poissonMean && 1 - cumulativeWeight < 1e-12) {
+      break;
+    }
+  }
+  return terms;
+}
+
+// Merton jump-diffusion price of a European option
+export function calculateMertonPremium(
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  volatility: number,       // Diffusion volatility as a decimal
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  params: MertonParameters, // Jump parameters
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  // Weighting by λ' = λ(1 + k) rather than λ absorbs the difference between discounting at r_n and r
+  return mertonSeries(timeToExpiry, volatility, riskFreeRate, params).reduce(
+    (sum, term) => sum + term.weight * calculateOptionPremium(
+      spotPrice,
+      strikePrice,
+      timeToExpiry,
+      term.volatility,
+      term.riskFreeRate,
+      isCall,
+      dividendYield
+    ),
+    0
+  );
+}
+
+// Merton Greeks: Poisson-weighted Black-Scholes Greeks, with theta by finite difference
+export function calculateMertonGreeks(
+  spotPrice: number,        // Current price of the underlying asset
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number,     // Time to expiry in years
+  volatility: number,       // Diffusion volatility as a decimal
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  params: MertonParameters, // Jump parameters
+  dividendYield: number = 0 // Continuous dividend/staking yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const greeks = { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  for (const term of mertonSeries(timeToExpiry, volatility, riskFreeRate, params)) {
+    const termGreeks = calculateGreeks(
+      spotPrice,
+      strikePrice,
+      timeToExpiry,
+      term.volatility,
+      term.riskFreeRate,
+      isCall,
+      dividendYield
+    );
+    greeks.delta += term.weight * termGreeks.delta;
+    greeks.gamma += term.weight * termGreeks.gamma;
+    // dσ_n/dσ = σ / σ_n
+    greeks.vega += term.weight * termGreeks.vega * volatility / term.volatility;
+    // r_n moves one-for-one with r and the weights do not depend on it
+    greeks.rho += term.weight * termGreeks.rho;
+  }
+
+  // Time enters the weights and the conditional volatilities and rates, so theta is a finite difference
+  const price = (t: number) =>
+    calculateMertonPremium(spotPrice, strikePrice, t, volatility, riskFreeRate, isCall, params, dividendYield);
+  const dt = Math.min(1 / 365, timeToExpiry / 2);
+  greeks.theta = (price(timeToExpiry - dt) - price(timeToExpiry)) / (dt * 365);
+
+  return greeks;
+}
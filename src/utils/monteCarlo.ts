@@ -0,0 +1,217 @@
+/**
+ * Monte Carlo Option Pricing Engine
+ *
+ * This utility prices path-dependent options by simulating geometric Brownian
+ * motion paths. It supports antithetic variates, control variates and a
+ * seedable generator, and reports the standard error of every estimate.
+ * It is CPU-heavy, so the UI runs it in a Web Worker (see workers/monteCarlo.worker.ts).
+ */
+
+import { normalCDF, OptionPricingInputs } from "./blackScholes";
+import { createRandomGenerator } from "./random";
+
+export type PathPayoff =
+  | "european"           // Vanilla payoff on the final price, useful as a check against Black-Scholes
+  | "asian"              // Payoff on the arithmetic average of the fixings
+  | "lookback-fixed"     // Payoff on the path maximum (call) or minimum (put) against the strike
+  | "lookback-floating"; // Final price against the path minimum (call) or maximum (put)
+
+export interface MonteCarloSettings {
+  payoff: PathPayoff;
+  paths: number;           // Number of simulated paths
+  timeSteps: number;       // Monitoring dates between now and expiry
+  seed: number;            // Seed for reproducible results
+  antithetic: boolean;     // Pair every path with its mirror image
+  controlVariate: boolean; // Correct the estimate with a payoff of known value
+}
+
+export interface ConvergencePoint {
+  paths: number;
+  premium: number;
+  standardError: number;
+}
+
+export interface MonteCarloResult {
+  premium: number;
+  standardError: number;
+  paths: number;
+  convergence: ConvergencePoint[];
+}
+
+// Message protocol between the UI and the pricing worker
+export interface MonteCarloRequest {
+  inputs: OptionPricingInputs;
+  settings: MonteCarloSettings;
+}
+
+export type MonteCarloResponse =
+  | { result: MonteCarloResult }
+  | { error: string };
+
+const CONVERGENCE_POINTS = 20;
+
+// Closed-form price of a discretely monitored geometric Asian option
+export function calculateGeometricAsianPremium(
+  inputs: OptionPricingInputs,
+  fixings: number  // Number of equally spaced averaging dates, the last at expiry
+): number {
+  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall } = inputs;
+  const dividendYield = inputs.dividendYield ?? 0;
+  const dt = timeToExpiry / fixings;
+
+  // ln(G) is normal with this mean and variance
+  const mean = Math.log(spotPrice) +
+    (riskFreeRate - dividendYield - 0.5 * volatility * volatility) * dt * (fixings + 1) / 2;
+  const variance = volatility * volatility * dt * (fixings + 1) * (2 * fixings + 1) / (6 * fixings);
+  const stdDev = Math.sqrt(variance);
+
+  const forward = Math.exp(mean + 0.5 * variance);
+  const d1 = (mean - Math.log(strikePrice) + variance) / stdDev;
+  const d2 = d1 - stdDev;
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+
+  return isCall
+    ? discount * (forward * normalCDF(d1) - strikePrice * normalCDF(d2))
+    : discount * (strikePrice * normalCDF(-d2) - forward * normalCDF(-d1));
+}
+
+// Price a path-dependent option by Monte Carlo simulation
+export function calculateMonteCarloPremium(
+  inputs: OptionPricingInputs,
+  settings: MonteCarloSettings
+): MonteCarloResult {
+  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall } = inputs;
+  const dividendYield = inputs.dividendYield ?? 0;
+
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || settings.paths <= 0) {
+    return { premium: 0, standardError: 0, paths: 0, convergence: [] };
+  }
+
+  const random = createRandomGenerator(settings.seed);
+  const steps = Math.max(1, Math.round(settings.timeSteps));
+  const dt = timeToExpiry / steps;
+  const drift = (riskFreeRate - dividendYield - 0.5 * volatility * volatility) * dt;
+  const diffusion = volatility * Math.sqrt(dt);
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+  const increments = new Float64Array(steps);
+
+  // The control is the geometric Asian payoff for Asian options, else the final price
+  const controlMean = settings.payoff === "asian"
+    ? calculateGeometricAsianPremium(inputs, steps)
+    : spotPrice * Math.exp(-dividendYield * timeToExpiry);
+
+  // Walk one path from the shared shocks and return its discounted payoff and control
+  const simulatePath = (sign: 1 | -1): [number, number] => {
+    let logPrice = Math.log(spotPrice);
+    let price = spotPrice;
+    let sum = 0;
+    let logSum = 0;
+    let max = spotPrice;
+    let min = spotPrice;
+
+    for (let i = 0; i < steps; i++) {
+      logPrice += drift + diffusion * sign * increments[i];
+      price = Math.exp(logPrice);
+      sum += price;
+      logSum += logPrice;
+      if (price > max) max = price;
+      if (price < min) min = price;
+    }
+
+    let payoff: number;
+    switch (settings.payoff) {
+      case "asian": {
+        const average = sum / steps;
+        payoff = isCall ? Math.max(0, average - strikePrice) : Math.max(0, strikePrice - average);
+        break;
+      }
+      case "lookback-fixed":
+        payoff = isCall ? Math.max(0, max - strikePrice) : Math.max(0, strikePrice - min);
+        break;
+      case "lookback-floating":
+        payoff = isCall ? price - min : max - price;
+        break;
+      default:
+        payoff = isCall ? Math.max(0, price - strikePrice) : Math.max(0, strikePrice - price);
+    }
+
+    let control: number;
+    if (settings.payoff === "asian") {
+      const geometricAverage = Math.exp(logSum / steps);
+      control = isCall
+        ? Math.max(0, geometricAverage - strikePrice)
+        : Math.max(0, strikePrice - geometricAverage);
+    } else {
+      control = price;
+    }
+
+    return [discount * payoff, discount * control];
+  };
+
+  // Antithetic pairs are averaged into a single, lower-variance sample
+  const samples = settings.antithetic ? Math.ceil(settings.paths / 2) : Math.round(settings.paths);
+  const checkpointEvery = Math.max(1, Math.ceil(samples / CONVERGENCE_POINTS));
+  const convergence: ConvergencePoint[] = [];
+
+  let sumY = 0;
+  let sumYY = 0;
+  let sumX = 0;
+  let sumXX = 0;
+  let sumXY = 0;
+
+  // Estimate and standard error from the running sums
+  const estimate = (n: number) => {
+    const meanY = sumY / n;
+    const varY = n > 1 ? (sumYY - n * meanY * meanY) / (n - 1) : 0;
+
+    if (!settings.controlVariate || n < 2) {
+      return { premium: meanY, standardError: Math.sqrt(Math.max(0, varY) / n) };
+    }
+
+    const meanX = sumX / n;
+    const varX = (sumXX - n * meanX * meanX) / (n - 1);
+    const covXY = (sumXY - n * meanX * meanY) / (n - 1);
+    const beta = varX > 0 ? covXY / varX : 0;
+    const adjustedVariance = varY - beta * covXY;
+
+    return {
+      premium: meanY - beta * (meanX - controlMean),
+      standardError: Math.sqrt(Math.max(0, adjustedVariance) / n)
+    };
+  };
+
+  for (let n = 1; n <= samples; n++) {
+    for (let i = 0; i < steps; i++) {
+      increments[i] = random.normal();
+    }
+
+    let [y, x] = simulatePath(1);
+    if (settings.antithetic) {
+      const [mirrorY, mirrorX] = simulatePath(-1);
+      y = 0.5 * (y + mirrorY);
+      x = 0.5 * (x + mirrorX);
+    }
+
+    sumY += y;
+    sumYY += y * y;
+    sumX += x;
+    sumXX += x * x;
+    sumXY += x * y;
+
+    if (n % checkpointEvery === 0 || n === samples) {
+      convergence.push({
+        paths: settings.antithetic ? 2 * n : n,
+        ...estimate(n)
+      });
+    }
+  }
+
+  const final = estimate(samples);
+  return {
+    premium: final.premium,
+    standardError: final.standardError,
+    paths: settings.antithetic ? 2 * samples : samples,
+    convergence
+  };
+}
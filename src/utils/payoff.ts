@@ -0,0 +1,48 @@
+/**
+ * Option Payoff at Expiry
+ *
+ * This utility gives the value of an option at expiry for a given underlying
+ * price, for vanilla and digital payoffs, optionally with a knock-out barrier.
+ */
+
+import { BarrierType } from "./barrier";
+import { DigitalType } from "./blackScholes";
+
+export type PayoffStyle = "vanilla" | DigitalType;
+
+// Value of an option at expiry for a given underlying price
+export function calculateExpiryPayoff(
+  price: number,            // Underlying price at expiry
+  strikePrice: number,      // Strike price of the option
+  isCall: boolean,          // true for call option, false for put option
+  payoffStyle: PayoffStyle = "vanilla",
+  cashAmount: number = 1    // Payout of a cash-or-nothing option
+): number {
+  const inTheMoney = isCall ? price > strikePrice : price < strikePrice;
+
+  switch (payoffStyle) {
+    case "cash-or-nothing":
+      return inTheMoney ? cashAmount : 0;
+    case "asset-or-nothing":
+      return inTheMoney ? price : 0;
+    default:
+      return isCall ? Math.max(0, price - strikePrice) : Math.max(0, strikePrice - price);
+  }
+}
+
+// Value at expiry judged by the expiry price alone. Finishing beyond a knock-out
+// barrier means it was hit, leaving only the rebate.
+export function calculateBarrierExpiryPayoff(
+  price: number,            // Underlying price at expiry
+  strikePrice: number,      // Strike price of the option
+  isCall: boolean,          // true for call option, false for put option
+  payoffStyle: PayoffStyle = "vanilla",
+  cashAmount: number = 1,   // Payout of a cash-or-nothing option
+  barrier?: { type: BarrierType; level: number; rebate: number }
+): number {
+  if (barrier && barrier.type.endsWith("out") &&
+    (barrier.type.startsWith("down") ? price <= barrier.level : price >= barrier.level)) {
+    return barrier.rebate;
+  }
+  return calculateExpiryPayoff(price, strikePrice, isCall, payoffStyle, cashAmount);
+}
@@ -0,0 +1,163 @@
+/**
+ * Payoff Analytics
+ *
+ * This utility finds the breakeven prices, maximum profit and maximum loss of a
+ * position from its profit-and-loss function. Expiry payoffs are piecewise linear
+ * between strikes, so each breakeven is solved exactly on its segment and the
+ * extremes lie at the strikes or in the tails, where a non-zero slope means the
+ * profit or loss is unbounded. Payoffs that are not piecewise linear, such as a
+ * calendar spread valued before its back expiry, are scanned and refined by bisection.
+ */
+
+export interface PayoffAnalytics {
+  breakevens: number[];        // Underlying prices at which the position breaks even
+  maxProfit: number | null;    // Largest profit, or null when unbounded
+  maxLoss: number | null;      // Largest loss as a positive amount, or null when unbounded
+  rewardToRisk: number | null; // Max profit per unit of max loss, when both are bounded
+}
+
+export interface PayoffAnalyticsOptions {
+  piecewiseLinear: boolean;     // Whether the P&L is linear between the kink prices
+  allowNegativePrices?: boolean; // Whether the underlying can go below zero
+}
+
+// One-sided limits of the P&L at a price, which differ where a digital or barrier payoff jumps
+function limitsAt(pnlAt: (price: number) => number, price: number): { left: number; right: number } {
+  const value = pnlAt(price);
+  const offset = (Math.abs(price) + 1) * 1e-12;
+  const tolerance = (Math.abs(value) + 1) * 1e-6;
+  const left = pnlAt(price - offset);
+  const right = pnlAt(price + offset);
+  return {
+    left: Math.abs(left - value) > tolerance ? left : value,
+    right: Math.abs(right - value) > tolerance ? right : value
+  };
+}
+
+// Price at which a straight line through two points crosses zero
+const linearRoot = (x1: number, y1: number, x2: number, y2: number) => x1 - y1 * (x2 - x1) / (y2 - y1);
+
+// Whether a P&L changes sign between two values, counting a value that lands on zero
+const crossesZero = (from: number, to: number) => (from < 0 && to >= 0) || (from > 0 && to <= 0);
+
+function summarise(values: number[], profitUnbounded: boolean, lossUnbounded: boolean, breakevens: number[]): PayoffAnalytics {
+  const maxProfit = profitUnbounded ? null : Math.max(0, ...values);
+  const maxLoss = lossUnbounded ? null : Math.max(0, -Math.min(...values));
+  return {
+    breakevens: Array.from(new Set(breakevens.map((price) => Number(price.toFixed(8))))).sort((a, b) => a - b),
+    maxProfit,
+    maxLoss,
+    rewardToRisk: maxProfit !== null && maxLoss !== null && maxLoss > 0 ? maxProfit / maxLoss : null
+  };
+}
+
+// Breakevens and extremes of a P&L function with kinks at the given prices
+export function analyzePayoff(
+  pnlAt: (price: number) => number,  // Profit or loss for an underlying price
+  kinkPrices: number[],              // Strikes, barriers and other prices where the slope can change
+  referencePrice: number,            // Current price, which sets the scale of the search
+  options: PayoffAnalyticsOptions
+): PayoffAnalytics {
+  const lowerBound = options.allowNegativePrices ? -Infinity : 0;
+  const nodes = Array.from(new Set([...kinkPrices, referencePrice, ...(options.allowNegativePrices ? [] : [0])]))
+    .filter((price) => isFinite(price) && price >= lowerBound)
+    .sort((a, b) => a - b);
+  const scale = Math.max(...nodes.map(Math.abs), 1);
+
+  if (!options.piecewiseLinear) {
+    return analyzeByScanning(pnlAt, nodes, scale, options.allowNegativePrices === true);
+  }
+
+  const limits = nodes.map((price) => limitsAt(pnlAt, price));
+  const values = limits.flatMap(({ left, right }) => [left, right]);
+  const breakevens: number[] = [];
+
+  // A jump across zero breaks even at the jump itself
+  nodes.forEach((price, i) => {
+    if (limits[i].left * limits[i].right < 0) {
+      breakevens.push(price);
+    }
+  });
+
+  // Between kinks the P&L is a straight line
+  for (let i = 0; i < nodes.length - 1; i++) {
+    const from = limits[i].right;
+    const to = limits[i + 1].left;
+    if (crossesZero(from, to)) {
+      breakevens.push(linearRoot(nodes[i], from, nodes[i + 1], to));
+    }
+  }
+
+  // Beyond the outer kinks the P&L keeps its slope forever
+  const slopeTolerance = 1e-9 * (Math.max(...values.map(Math.abs)) + 1) / scale;
+  let profitUnbounded = false;
+  let lossUnbounded = false;
+  const tails = [{ index: nodes.length - 1, direction: 1 }];
+  if (options.allowNegativePrices) {
+    tails.push({ index: 0, direction: -1 });
+  }
+  for (const { index, direction } of tails) {
+    const edge = nodes[index];
+    const edgeValue = direction > 0 ? limits[index].right : limits[index].left;
+    const farValue = pnlAt(edge + direction * scale);
+    const change = farValue - edgeValue;
+    if (Math.abs(change) / scale > slopeTolerance) {
+      if (change > 0) {
+        profitUnbounded = true;
+      } else {
+        lossUnbounded = true;
+      }
+      if (edgeValue * change < 0) {
+        breakevens.push(linearRoot(edge, edgeValue, edge + direction * scale, farValue));
+      }
+    }
+  }
+
+  return summarise(values, profitUnbounded, lossUnbounded, breakevens);
+}
+
+// Scan a smooth P&L on a fine grid, refining each sign change by bisection
+function analyzeByScanning(
+  pnlAt: (price: number) => number,
+  nodes: number[],
+  scale: number,
+  allowNegativePrices: boolean
+): PayoffAnalytics {
+  const lower = allowNegativePrices ? nodes[0] - 2 * scale : 0;
+  const upper = nodes[nodes.length - 1] + 2 * scale;
+  const steps = 2000;
+  const prices = Array.from({ length: steps + 1 }, (_, i) => lower + (upper - lower) * i / steps)
+    .concat(nodes)
+    .sort((a, b) => a - b);
+  const values = prices.map(pnlAt);
+  const breakevens: number[] = [];
+
+  for (let i = 0; i < prices.length - 1; i++) {
+    if (!crossesZero(values[i], values[i + 1])) {
+      continue;
+    }
+    let low = prices[i];
+    let high = prices[i + 1];
+    const lowSign = Math.sign(values[i]);
+    for (let iteration = 0; iteration < 60; iteration++) {
+      const mid = 0.5 * (low + high);
+      if (Math.sign(pnlAt(mid)) === lowSign) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    breakevens.push(0.5 * (low + high));
+  }
+
+  // Far from the strikes the P&L approaches a straight line, whose slope decides boundedness
+  const slopeTolerance = 1e-6 * (Math.max(...values.map(Math.abs)) + 1) / scale;
+  // Rate at which the P&L grows moving outwards from an edge of the grid
+  const outwardSlope = (edge: number, direction: number) =>
+    (pnlAt(edge + direction * 10 * scale) - pnlAt(edge + direction * 9 * scale)) / scale;
+  const slopes = allowNegativePrices ? [outwardSlope(upper, 1), outwardSlope(lower, -1)] : [outwardSlope(upper, 1)];
+  const profitUnbounded = slopes.some((slope) => slope > slopeTolerance);
+  const lossUnbounded = slopes.some((slope) => slope < -slopeTolerance);
+
+  return summarise(values, profitUnbounded, lossUnbounded, breakevens);
+}
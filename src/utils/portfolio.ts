@@ -0,0 +1,128 @@
+/**
+ * Portfolio Risk
+ *
+ * This utility values a book of saved positions across assets and expiries. Each
+ * position is a strategy leg with a fixed expiry date, revalued with Black-Scholes at
+ * the current price of its underlying. Risk is reported in USD and in units of the
+ * underlying, so it can be summed across a whole book or netted per underlying.
+ */
+
+import { MS_PER_DAY } from "./dayCount";
+import { calculateStrategyPnl, isLinearLeg, legDirection, StrategyLeg, StrategyMarket, valueLeg } from "./strategy";
+
+export interface SavedPosition extends Omit<StrategyLeg, "expiryDays"> {
+  asset: string;                 // Underlying symbol
+  expiry: number;                // Expiry timestamp in milliseconds, unused by spot and perpetual legs
+  entryPremium: number;          // Value of one option when saved, in USD
+  spotPrice: number;             // Underlying price when saved
+  market: Omit<StrategyMarket, "spotPrice">;
+  savedAt: number;
+}
+
+export interface RiskMeasures {
+  value: number;   // Value of the options held, net of those sold
+  pnl: number;     // Change in value since the position was saved
+  delta: number;   // Exposure to the underlying
+  gamma: number;   // Change in delta for a 1% move in the underlying
+  vega: number;    // Change in value for a 1% rise in volatility
+  theta: number;   // Change in value over one calendar day
+}
+
+export interface PositionRisk {
+  timeToExpiry: number;   // Time to expiry in years
+  usd: RiskMeasures;
+  asset: RiskMeasures;    // The same measures in units of the underlying
+}
+
+export interface ExpiryBucket {
+  id: string;
+  label: string;
+  maxDays: number;        // Last day to expiry in the bucket
+}
+
+// Buckets for splitting risk by time to expiry; spot and perpetual legs never expire
+export const expiryBuckets: ExpiryBucket[] = [
+  { id: "expired", label: "Expired", maxDays: 0 },
+  { id: "week", label: "Within 1 week", maxDays: 7 },
+  { id: "month", label: "1 week to 1 month", maxDays: 30 },
+  { id: "quarter", label: "1 to 3 months", maxDays: 90 },
+  { id: "long", label: "Over 3 months", maxDays: Infinity }
+];
+
+export const noExpiryBucket: ExpiryBucket = { id: "none", label: "No expiry", maxDays: Infinity };
+
+const emptyMeasures: RiskMeasures = { value: 0, pnl: 0, delta: 0, gamma: 0, vega: 0, theta: 0 };
+
+// Id that stays unique across browser sessions
+export function createPositionId(): string {
+  return `position-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const hasExpiry = (position: SavedPosition) => position.type !== "spot" && position.type !== "perpetual";
+
+// The position as a strategy leg, with its expiry counted from now
+export function toStrategyLeg(position: SavedPosition, now: number = Date.now()): StrategyLeg {
+  const { asset, expiry, entryPremium, spotPrice, market, savedAt, ...leg } = position;
+  return { ...leg, expiryDays: hasExpiry(position) ? (expiry - now) / MS_PER_DAY : 0 };
+}
+
+// Value and risk of a position at an underlying price
+export function valuePosition(position: SavedPosition, spotPrice: number, now: number = Date.now()): PositionRisk {
+  const leg = toStrategyLeg(position, now);
+  const market: StrategyMarket = { ...position.market, spotPrice };
+  const valuation = valueLeg(leg, market);
+  const direction = legDirection(leg);
+  const { delta, gamma, vega, theta } = valuation.greeks;
+
+  // Options are held at their premium; spot and futures carry only their P&L from entry
+  const pnl = calculateStrategyPnl([leg], [position.entryPremium], spotPrice, market, { days: 0, volatilities: {} });
+  const value = isLinearLeg(leg) ? pnl : direction * valuation.premium;
+
+  const assetDelta = direction * delta;
+  const assetGamma = direction * gamma * spotPrice / 100;
+  const usd: RiskMeasures = {
+    value,
+    pnl,
+    delta: assetDelta * spotPrice,
+    gamma: assetGamma * spotPrice,
+    vega: direction * vega,
+    theta: direction * theta
+  };
+  const toAsset = (amount: number) => (spotPrice > 0 ? amount / spotPrice : 0);
+
+  return {
+    timeToExpiry: valuation.timeToExpiry,
+    usd,
+    asset: {
+      value: toAsset(usd.value),
+      pnl: toAsset(usd.pnl),
+      delta: assetDelta,
+      gamma: assetGamma,
+      vega: toAsset(usd.vega),
+      theta: toAsset(usd.theta)
+    }
+  };
+}
+
+export function sumRiskMeasures(measures: RiskMeasures[]): RiskMeasures {
+  return measures.reduce(
+    (total, item) => ({
+      value: total.value + item.value,
+      pnl: total.pnl + item.pnl,
+      delta: total.delta + item.delta,
+      gamma: total.gamma + item.gamma,
+      vega: total.vega + item.vega,
+      theta: total.theta + item.theta
+    }),
+    emptyMeasures
+  );
+}
+
+// Bucket a position falls in by its time to expiry
+export function getExpiryBucket(position: SavedPosition, now: number = Date.now()): ExpiryBucket {
+  if (!hasExpiry(position)) {
+    return noExpiryBucket;
+  }
+  const days = (position.expiry - now) / MS_PER_DAY;
+  return expiryBuckets.find((bucket) => days <= bucket.maxDays) ?? expiryBuckets[expiryBuckets.length - 1];
+}
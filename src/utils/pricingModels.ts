@@ -0,0 +1,237 @@
+/**
+ * Pricing Model Registry
+ *
+ * This utility defines a common interface for European option pricing models so the
+ * calculator can offer them from one dropdown. Each model takes the shared market
+ * inputs as a named-field object plus its own parameters, described by a schema the
+ * UI renders as input fields. Models without analytic Greeks fall back to finite
+ * differences of their price.
+ */
+
+import { calculateGreeks, calculateOptionPremium, OptionPricingInputs } from "./blackScholes";
+import { calculateHestonPremium, calculateHestonGreeks } from "./heston";
+import { calculateMertonPremium, calculateMertonGreeks } from "./merton";
+import { calculateBachelierPremium, calculateBachelierGreeks, lognormalToNormalVolatility } from "./bachelier";
+
+export type Greeks = ReturnType<typeof calculateGreeks>;
+export type ModelParameters = Record<string, number>;
+
+// One model-specific input, rendered as a numeric field
+export interface ModelParameterField {
+  key: string;
+  label: string;
+  defaultValue: number;
+  step: number;
+  min?: number;
+  max?: number;
+}
+
+export interface PricingModel {
+  id: string;
+  name: string;
+  description: string;
+  parameters: ModelParameterField[];
+  usesVolatility: boolean;           // Whether the shared volatility input feeds the model
+  allowsNonPositivePrices?: boolean; // Whether the underlying and strike may be zero or negative
+  vegaNote?: string;                 // Unit of vega when it is not per 1% of lognormal volatility
+  price: (inputs: OptionPricingInputs, params: ModelParameters) => number;
+  greeks?: (inputs: OptionPricingInputs, params: ModelParameters) => Greeks;
+  // Parameters that reproduce the Black-Scholes price at the inputs' volatility
+  matchVolatility?: (inputs: OptionPricingInputs, params: ModelParameters) => ModelParameters;
+}
+
+const blackScholesModel: PricingModel = {
+  id: "black-scholes",
+  name: "Black-Scholes",
+  description: "Black-Scholes assumes a constant volatility and lognormal prices.",
+  parameters: [],
+  usesVolatility: true,
+  price: (inputs) => calculateOptionPremium(
+    inputs.spotPrice,
+    inputs.strikePrice,
+    inputs.timeToExpiry,
+    inputs.volatility,
+    inputs.riskFreeRate,
+    inputs.isCall,
+    inputs.dividendYield
+  ),
+  greeks: (inputs) => calculateGreeks(
+    inputs.spotPrice,
+    inputs.strikePrice,
+    inputs.timeToExpiry,
+    inputs.volatility,
+    inputs.riskFreeRate,
+    inputs.isCall,
+    inputs.dividendYield
+  )
+};
+
+const hestonModel: PricingModel = {
+  id: "heston",
+  name: "Heston",
+  description: "Heston lets the variance mean-revert randomly and move with the price, which produces a volatility smile.",
+  parameters: [
+    { key: "kappa", label: "Mean Reversion (κ)", defaultValue: 2, step: 0.1, min: 0 },
+    { key: "theta", label: "Long-Run Variance (θ)", defaultValue: 1, step: 0.01, min: 0 },
+    { key: "xi", label: "Vol of Vol (ξ)", defaultValue: 1, step: 0.05, min: 0.01 },
+    { key: "rho", label: "Correlation (ρ)", defaultValue: -0.5, step: 0.05, min: -1, max: 1 },
+    { key: "v0", label: "Initial Variance (v₀)", defaultValue: 1, step: 0.01, min: 0 }
+  ],
+  usesVolatility: false,
+  price: (inputs, params) => calculateHestonPremium(
+    inputs.spotPrice,
+    inputs.strikePrice,
+    inputs.timeToExpiry,
+    inputs.riskFreeRate,
+    inputs.isCall,
+    { kappa: params.kappa, theta: params.theta, xi: params.xi, rho: params.rho, v0: params.v0 },
+    inputs.dividendYield
+  ),
+  greeks: (inputs, params) => calculateHestonGreeks(
+    inputs.spotPrice,
+    inputs.strikePrice,
+    inputs.timeToExpiry,
+    inputs.riskFreeRate,
+    inputs.isCall,
+    { kappa: params.kappa, theta: params.theta, xi: params.xi, rho: params.rho, v0: params.v0 },
+    inputs.dividendYield
+  ),
+  // Start and mean-revert to the Black-Scholes variance
+  matchVolatility: (inputs, params) => {
+    const variance = Number((inputs.volatility * inputs.volatility).toFixed(4));
+    return { ...params, theta: variance, v0: variance };
+  }
+};
+
+const mertonModel: PricingModel = {
+  id: "merton",
+  name: "Merton",
+  description: "Merton adds sudden jumps to the price, which fattens the tails for crash-prone assets.",
+  parameters: [
+    { key: "jumpIntensity", label: "Jump Intensity (per year)", defaultValue: 1, step: 0.1, min: 0 },
+    { key: "jumpMean", label: "Mean Log Jump", defaultValue: -0.1, step: 0.01 },
+    { key: "jumpVolatility", label: "Jump Volatility", defaultValue: 0.15, step: 0.01, min: 0 }
+  ],
+  usesVolatility: true,
+  price: (inputs, params) => calculateMertonPremium(
+    inputs.spotPrice,
+    inputs.strikePrice,
+    inputs.timeToExpiry,
+    inputs.volatility,
+    inputs.riskFreeRate,
+    inputs.isCall,
+    { jumpIntensity: params.jumpIntensity, jumpMean: params.jumpMean, jumpVolatility: params.jumpVolatility },
+    inputs.dividendYield
+  ),
+  greeks: (inputs, params) => calculateMertonGreeks(
+    inputs.spotPrice,
+    inputs.strikePrice,
+    inputs.timeToExpiry,
+    inputs.volatility,
+    inputs.riskFreeRate,
+    inputs.isCall,
+    { jumpIntensity: params.jumpIntensity, jumpMean: params.jumpMean, jumpVolatility: params.jumpVolatility },
+    inputs.dividendYield
+  )
+};
+
+const bachelierModel: PricingModel = {
+  id: "bachelier",
+  name: "Bachelier",
+  description: "Bachelier uses a normal volatility in price units and allows negative underlyings.",
+  parameters: [
+    { key: "normalVolatility", label: "Normal Volatility ($ per year)", defaultValue: 50, step: 0.01, min: 0 }
+  ],
+  usesVolatility: false,
+  allowsNonPositivePrices: true,
+  vegaNote: "Vega is per $1 change in normal volatility.",
+  price: (inputs, params) => calculateBachelierPremium(
+    inputs.spotPrice,
+    inputs.strikePrice,
+    inputs.timeToExpiry,
+    params.normalVolatility,
+    inputs.riskFreeRate,
+    inputs.isCall,
+    inputs.dividendYield
+  ),
+  greeks: (inputs, params) => calculateBachelierGreeks(
+    inputs.spotPrice,
+    inputs.strikePrice,
+    inputs.timeToExpiry,
+    params.normalVolatility,
+    inputs.riskFreeRate,
+    inputs.isCall,
+    inputs.dividendYield
+  ),
+  // Convert the lognormal volatility to the normal volatility with the same price
+  matchVolatility: (inputs, params) => {
+    const normalVolatility = lognormalToNormalVolatility(
+      inputs.volatility,
+      inputs.spotPrice,
+      inputs.strikePrice,
+      inputs.timeToExpiry,
+      inputs.riskFreeRate,
+      inputs.dividendYield
+    );
+    return normalVolatility !== null ? { ...params, normalVolatility: Number(normalVolatility.toFixed(4)) } : params;
+  }
+};
+
+// Registered models, in dropdown order
+export const pricingModels: PricingModel[] = [blackScholesModel, hestonModel, mertonModel, bachelierModel];
+
+export function getPricingModel(id: string): PricingModel {
+  return pricingModels.find((model) => model.id === id) ?? blackScholesModel;
+}
+
+// Default parameters for every registered model, keyed by model id
+export function getDefaultModelParameters(): Record<string, ModelParameters> {
+  return Object.fromEntries(
+    pricingModels.map((model) => [
+      model.id,
+      Object.fromEntries(model.parameters.map((field) => [field.key, field.defaultValue]))
+    ])
+  );
+}
+
+// Generic Greeks by central finite differences of a model's price
+export function calculateFiniteDifferenceGreeks(
+  model: PricingModel,
+  inputs: OptionPricingInputs,
+  params: ModelParameters
+): Greeks {
+  // Check for invalid inputs
+  if (inputs.timeToExpiry <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const price = (changes: Partial<OptionPricingInputs>) => model.price({ ...inputs, ...changes }, params);
+
+  const base = price({});
+  // Relative spot bump, with a floor so a zero or negative underlying still moves
+  const ds = Math.max(Math.abs(inputs.spotPrice), 1) * 1e-3;
+  const up = price({ spotPrice: inputs.spotPrice + ds });
+  const down = price({ spotPrice: inputs.spotPrice - ds });
+
+  // Theta over one day, or over what is left of the option's life
+  const dt = Math.min(1 / 365, inputs.timeToExpiry / 2);
+
+  return {
+    delta: (up - down) / (2 * ds),
+    gamma: (up - 2 * base + down) / (ds * ds),
+    theta: (price({ timeToExpiry: inputs.timeToExpiry - dt }) - base) / (dt * 365),
+    vega: (price({ volatility: inputs.volatility + 0.01 }) -
+      price({ volatility: Math.max(inputs.volatility - 0.01, 1e-4) })) / 2,
+    rho: (price({ riskFreeRate: inputs.riskFreeRate + 0.01 }) -
+      price({ riskFreeRate: inputs.riskFreeRate - 0.01 })) / 2
+  };
+}
+
+// A model's own Greeks where it has them, otherwise finite differences
+export function calculateModelGreeks(
+  model: PricingModel,
+  inputs: OptionPricingInputs,
+  params: ModelParameters
+): Greeks {
+  return model.greeks ? model.greeks(inputs, params) : calculateFiniteDifferenceGreeks(model, inputs, params);
+}
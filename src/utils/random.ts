@@ -0,0 +1,47 @@
+/**
+ * Seedable Random Number Generation
+ *
+ * Simulations need reproducible draws, which Math.random cannot provide.
+ * This utility wraps the Mulberry32 generator with a Box-Muller transform
+ * for standard normal variates.
+ */
+
+export interface RandomGenerator {
+  uniform: () => number;  // Uniform draw in [0, 1)
+  normal: () => number;   // Standard normal draw
+}
+
+// Create a random generator from a 32-bit integer seed
+export function createRandomGenerator(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  let spareNormal: number | null = null;
+
+  // Mulberry32: fast 32-bit generator with a full 2^32 period
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Box-Muller produces normals in pairs, so keep the second for the next call
+  const normal = () => {
+    if (spareNormal !== null) {
+      const value = spareNormal;
+      spareNormal = null;
+      return value;
+    }
+
+    let u1 = uniform();
+    while (u1 === 0) {
+      u1 = uniform();
+    }
+    const u2 = uniform();
+    const radius = Math.sqrt(-2 * Math.log(u1));
+    spareNormal = radius * Math.sin(2 * Math.PI * u2);
+    return radius * Math.cos(2 * Math.PI * u2);
+  };
+
+  return { uniform, normal };
+}
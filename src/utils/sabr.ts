@@ -0,0 +1,167 @@
+/**
+ * SABR Volatility Smile
+ *
+ * This utility implements the SABR stochastic volatility model through the Hagan et al.
+ * (2002) lognormal implied-volatility approximation, and calibrates it to a set of
+ * market (strike, implied volatility) quotes. The fitted smile gives a Black-Scholes
+ * volatility for any strike at the same expiry.
+ */
+
+export interface SabrParameters {
+  alpha: number;  // Volatility level
+  beta: number;   // CEV exponent, from 0 (normal) to 1 (lognormal)
+  rho: number;    // Correlation between the forward and its volatility
+  nu: number;     // Volatility of volatility
+}
+
+export interface SmilePoint {
+  strike: number;
+  volatility: number;  // Implied volatility as a decimal
+}
+
+export interface SabrCalibration {
+  params: SabrParameters;
+  rmse: number;  // Root-mean-square volatility error as a decimal
+}
+
+// Hagan's lognormal implied volatility for a strike
+export function calculateSabrVolatility(
+  forwardPrice: number,   // Forward price of the underlying asset
+  strikePrice: number,    // Strike price of the option
+  timeToExpiry: number,   // Time to expiry in years
+  params: SabrParameters  // SABR model parameters
+): number {
+  const { alpha, beta, rho, nu } = params;
+
+  // Check for invalid inputs
+  if (forwardPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || alpha <= 0) {
+    return 0;
+  }
+
+  const oneMinusBeta = 1 - beta;
+  const fkBeta = Math.pow(forwardPrice * strikePrice, oneMinusBeta / 2);
+  const logMoneyness = Math.log(forwardPrice / strikePrice);
+
+  // Time-dependent correction term
+  const correction = 1 + (
+    oneMinusBeta * oneMinusBeta * alpha * alpha / (24 * fkBeta * fkBeta) +
+    rho * beta * nu * alpha / (4 * fkBeta) +
+    (2 - 3 * rho * rho) * nu * nu / 24
+  ) * timeToExpiry;
+
+  const denominator = fkBeta * (
+    1 +
+    Math.pow(oneMinusBeta * logMoneyness, 2) / 24 +
+    Math.pow(oneMinusBeta * logMoneyness, 4) / 1920
+  );
+
+  // z / x(z) tends to 1 at the money
+  const z = nu / alpha * fkBeta * logMoneyness;
+  let zOverX = 1;
+  if (Math.abs(z) > 1e-8) {
+    const x = Math.log((Math.sqrt(1 - 2 * rho * z + z * z) + z - rho) / (1 - rho));
+    zOverX = z / x;
+  }
+
+  return Math.max(0, alpha / denominator * zOverX * correction);
+}
+
+// Fit alpha, rho and nu to market quotes for a fixed beta
+export function calibrateSabr(
+  points: SmilePoint[],   // Market implied volatilities by strike
+  forwardPrice: number,   // Forward price of the underlying asset
+  timeToExpiry: number,   // Time to expiry in years
+  beta: number = 1        // Fixed CEV exponent
+): SabrCalibration | null {
+  const quotes = points.filter((point) => point.strike > 0 && point.volatility > 0);
+  if (quotes.length < 3 || forwardPrice <= 0 || timeToExpiry <= 0) {
+    return null; // Three free parameters need at least three quotes
+  }
+
+  // Search over unconstrained variables: alpha = e^a, rho = tanh(b), nu = e^c
+  const toParams = ([a, b, c]: number[]): SabrParameters => ({
+    alpha: Math.exp(a),
+    beta,
+    rho: Math.tanh(b) * 0.999,
+    nu: Math.exp(c)
+  });
+  const objective = (x: number[]) => {
+    const params = toParams(x);
+    return quotes.reduce((sum, point) => {
+      const error = calculateSabrVolatility(forwardPrice, point.strike, timeToExpiry, params) - point.volatility;
+      return sum + error * error;
+    }, 0);
+  };
+
+  // Start from the quote nearest the forward: alpha ≈ σ_ATM * F^(1 - β)
+  const atmQuote = quotes.reduce((nearest, point) =>
+    Math.abs(point.strike - forwardPrice) < Math.abs(nearest.strike - forwardPrice) ? point : nearest
+  );
+  const start = [Math.log(atmQuote.volatility * Math.pow(forwardPrice, 1 - beta)), 0, Math.log(0.5)];
+  const best = minimizeNelderMead(objective, start);
+
+  return {
+    params: toParams(best),
+    rmse: Math.sqrt(objective(best) / quotes.length)
+  };
+}
+
+// Parse "strike, IV%" pairs, one per line, skipping anything that is not two numbers
+export function parseSmilePoints(text: string): SmilePoint[] {
+  return text
+    .split(/[\n;]+/)
+    .map((line) => line.trim().split(/[\s,]+/).map(Number))
+    .filter((values) => values.length === 2 && values.every((value) => !isNaN(value) && value > 0))
+    .map(([strike, volatility]) => ({ strike, volatility: volatility / 100 }))
+    .sort((a, b) => a.strike - b.strike);
+}
+
+// Nelder-Mead simplex minimisation
+function minimizeNelderMead(f: (x: number[]) => number, start: number[], maxIterations: number = 2000): number[] {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((value, j) => (i === j ? value + 0.5 : value)))]
+    .map((x) => ({ x, value: f(x) }));
+
+  const combine = (a: number[], b: number[], weight: number) => a.map((value, i) => value + weight * (b[i] - value));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (worst.value - best.value < 1e-14) {
+      break;
+    }
+
+    // Centroid of every point but the worst
+    const centroid = start.map((_, i) => simplex.slice(0, n).reduce((sum, point) => sum + point.x[i], 0) / n);
+
+    const reflected = combine(centroid, worst.x, -1);
+    const reflectedValue = f(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.x, -2);
+      const expandedValue = f(expanded);
+      simplex[n] = expandedValue < reflectedValue
+        ? { x: expanded, value: expandedValue }
+        : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = combine(centroid, worst.x, 0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < worst.value) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        // Shrink towards the best point
+        simplex = simplex.map((point, i) => {
+          if (i === 0) return point;
+          const x = combine(best.x, point.x, 0.5);
+          return { x, value: f(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return simplex[0].x;
+}
@@ -0,0 +1,241 @@
+/**
+ * Multi-Leg Option Strategies
+ *
+ * This utility values a position made of several option legs on one underlying.
+ * Each leg has its own side, quantity, strike, expiry and volatility, and the
+ * position's premium, Greeks and payoff are the signed sums over its legs. When
+ * the legs expire on different dates, as in calendar and diagonal spreads, the
+ * payoff is taken at the front expiry with the later legs still valued by the model.
+ * Spot, dated-futures and perpetual-swap legs add linear P&L from their entry price,
+ * for covered, protective and delta-hedged structures.
+ */
+
+import { OptionPricingInputs } from "./blackScholes";
+import { DayCountConvention, MS_PER_DAY, yearFraction } from "./dayCount";
+import { calculateExpiryPayoff } from "./payoff";
+import { calculateModelGreeks, getPricingModel, Greeks, ModelParameters, PricingModel } from "./pricingModels";
+
+export type LegSide = "long" | "short";
+export type LinearLegType = "spot" | "future" | "perpetual";
+export type LegType = "call" | "put" | LinearLegType;
+
+export interface StrategyLeg {
+  id: string;
+  side: LegSide;
+  quantity: number;       // Number of options or units of the underlying
+  type: LegType;
+  strikePrice: number;    // Strike, or the entry price of a linear leg
+  expiryDays: number;     // Calendar days to expiry, unused by spot and perpetual legs
+  volatility: number;     // Implied volatility as a percentage, unused by linear legs
+}
+
+// Market inputs shared by every leg
+export interface StrategyMarket {
+  spotPrice: number;      // Current price of the underlying asset
+  riskFreeRate: number;   // Risk-free interest rate as a decimal
+  dividendYield: number;  // Continuous yield as a decimal, equal to the rate for options on futures
+  dayCount: DayCountConvention;
+  weekendWeight: number;  // Weight of weekend hours under the crypto convention
+}
+
+export interface LegValuation {
+  timeToExpiry: number;   // Time to expiry in years
+  premium: number;        // Value of one option, or zero for a linear leg
+  greeks: Greeks;         // Greeks of one option or unit
+}
+
+// Date at which profit or loss is measured, and the volatilities assumed then
+export interface ValuationHorizon {
+  days: number;                           // Calendar days from now to the valuation date
+  volatilities: Record<number, number>;   // Assumed volatility as a percentage, keyed by leg expiry in days
+}
+
+export interface StrategyValuation {
+  legs: LegValuation[];
+  premium: number;        // Net cost, positive for a debit and negative for a credit
+  greeks: Greeks;         // Net Greeks of the position
+}
+
+let legCounter = 0;
+
+// A leg with a fresh id, for adding or duplicating legs
+export function createLeg(leg: Omit<StrategyLeg, "id">): StrategyLeg {
+  legCounter += 1;
+  return { ...leg, id: `leg-${legCounter}` };
+}
+
+export function isLinearLeg(leg: StrategyLeg): boolean {
+  return leg.type === "spot" || leg.type === "future" || leg.type === "perpetual";
+}
+
+// Whether a leg stops trading at its expiry
+const hasExpiry = (leg: StrategyLeg) => leg.type !== "spot" && leg.type !== "perpetual";
+
+// Signed number of options, positive when long and negative when short
+export function legDirection(leg: StrategyLeg): number {
+  return (leg.side === "long" ? 1 : -1) * leg.quantity;
+}
+
+// Time to a leg's expiry in years under the market's day-count convention, seen from a number of days ahead
+export function legTimeToExpiry(leg: StrategyLeg, market: StrategyMarket, daysAhead: number = 0): number {
+  const now = Date.now();
+  return yearFraction(
+    new Date(now + daysAhead * MS_PER_DAY),
+    new Date(now + leg.expiryDays * MS_PER_DAY),
+    market.dayCount,
+    market.weekendWeight
+  );
+}
+
+// Days to the earliest option expiry. Linear legs, even dated futures, never set the horizon.
+export function getFrontExpiryDays(legs: StrategyLeg[]): number {
+  const options = legs.filter((leg) => !isLinearLeg(leg));
+  return options.length > 0 ? Math.min(...options.map((leg) => leg.expiryDays)) : 0;
+}
+
+// Distinct option expiries after the front one, in days
+export function getBackExpiryDays(legs: StrategyLeg[]): number[] {
+  const front = getFrontExpiryDays(legs);
+  return Array.from(new Set(legs.filter((leg) => !isLinearLeg(leg)).map((leg) => leg.expiryDays)))
+    .filter((days) => days > front)
+    .sort((a, b) => a - b);
+}
+
+// Price of a linear leg's instrument. A dated future carries the underlying to its expiry;
+// spot and perpetuals, whose funding keeps them near spot, track the underlying one for one.
+function linearPrice(leg: StrategyLeg, price: number, timeToExpiry: number, market: StrategyMarket): number {
+  return leg.type === "future"
+    ? price * Math.exp((market.riskFreeRate - market.dividendYield) * Math.max(timeToExpiry, 0))
+    : price;
+}
+
+// Value and Greeks of one option of a leg
+export function valueLeg(
+  leg: StrategyLeg,
+  market: StrategyMarket,
+  model: PricingModel = getPricingModel("black-scholes"),
+  params: ModelParameters = {}
+): LegValuation {
+  const timeToExpiry = legTimeToExpiry(leg, market);
+
+  // A linear leg has no premium, and its delta is its price's sensitivity to the underlying
+  if (isLinearLeg(leg)) {
+    return {
+      timeToExpiry: hasExpiry(leg) ? Math.max(timeToExpiry, 0) : 0,
+      premium: 0,
+      greeks: {
+        delta: linearPrice(leg, 1, timeToExpiry, market),
+        gamma: 0,
+        theta: 0,
+        vega: 0,
+        rho: 0
+      }
+    };
+  }
+
+  // An expired leg is worth its payoff at the current price
+  if (timeToExpiry <= 0) {
+    return {
+      timeToExpiry: 0,
+      premium: calculateExpiryPayoff(market.spotPrice, leg.strikePrice, leg.type === "call"),
+      greeks: { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 }
+    };
+  }
+
+  const inputs: OptionPricingInputs = {
+    spotPrice: market.spotPrice,
+    strikePrice: leg.strikePrice,
+    timeToExpiry,
+    volatility: leg.volatility / 100,
+    riskFreeRate: market.riskFreeRate,
+    isCall: leg.type === "call",
+    dividendYield: market.dividendYield
+  };
+  return {
+    timeToExpiry,
+    premium: model.price(inputs, params),
+    greeks: calculateModelGreeks(model, inputs, params)
+  };
+}
+
+// Net premium and Greeks of a strategy
+export function valueStrategy(
+  legs: StrategyLeg[],
+  market: StrategyMarket,
+  model: PricingModel = getPricingModel("black-scholes"),
+  params: ModelParameters = {}
+): StrategyValuation {
+  const valuations = legs.map((leg) => valueLeg(leg, market, model, params));
+  const greeks = { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  let premium = 0;
+
+  legs.forEach((leg, i) => {
+    const direction = legDirection(leg);
+    premium += direction * valuations[i].premium;
+    for (const key of Object.keys(greeks) as (keyof Greeks)[]) {
+      greeks[key] += direction * valuations[i].greeks[key];
+    }
+  });
+
+  return { legs: valuations, premium, greeks };
+}
+
+// Profit or loss at the valuation date for an underlying price, net of the premiums paid and received.
+// Legs expiring by then pay off; later legs are valued by the model over their remaining time.
+export function calculateStrategyPnl(
+  legs: StrategyLeg[],
+  legPremiums: number[],      // Value of one option of each leg when the position was opened
+  price: number,              // Underlying price at the valuation date
+  market: StrategyMarket,
+  horizon: ValuationHorizon,
+  model: PricingModel = getPricingModel("black-scholes"),
+  params: ModelParameters = {}
+): number {
+  return legs.reduce((total, leg, i) => {
+    if (isLinearLeg(leg)) {
+      const futureTime = hasExpiry(leg) && leg.expiryDays > horizon.days ? legTimeToExpiry(leg, market, horizon.days) : 0;
+      return total + legDirection(leg) * (linearPrice(leg, price, futureTime, market) - leg.strikePrice);
+    }
+    const remainingTime = leg.expiryDays > horizon.days ? legTimeToExpiry(leg, market, horizon.days) : 0;
+    const value = remainingTime > 0
+      ? model.price(
+          {
+            spotPrice: price,
+            strikePrice: leg.strikePrice,
+            timeToExpiry: remainingTime,
+            volatility: (horizon.volatilities[leg.expiryDays] ?? leg.volatility) / 100,
+            riskFreeRate: market.riskFreeRate,
+            isCall: leg.type === "call",
+            dividendYield: market.dividendYield
+          },
+          params
+        )
+      : calculateExpiryPayoff(price, leg.strikePrice, leg.type === "call");
+    return total + legDirection(leg) * (value - legPremiums[i]);
+  }, 0);
+}
+
+// Size the first linear leg, adding a spot leg if there is none, so the position's delta under the model is zero
+export function hedgeToDeltaNeutral(
+  legs: StrategyLeg[],
+  market: StrategyMarket,
+  model: PricingModel = getPricingModel("black-scholes"),
+  params: ModelParameters = {}
+): StrategyLeg[] {
+  const hedgeIndex = legs.findIndex(isLinearLeg);
+  const hedgeLeg = hedgeIndex >= 0
+    ? legs[hedgeIndex]
+    : createLeg({ side: "long", quantity: 0, type: "spot", strikePrice: market.spotPrice, expiryDays: 0, volatility: 0 });
+  const others = legs.filter((_, i) => i !== hedgeIndex);
+
+  const otherDelta = valueStrategy(others, market, model, params).greeks.delta;
+  const hedgeDelta = valueLeg(hedgeLeg, market, model, params).greeks.delta;
+  const units = -otherDelta / hedgeDelta;
+
+  const sized: StrategyLeg = {
+    ...hedgeLeg,
+    side: units >= 0 ? "long" : "short",
+    quantity: Number(Math.abs(units).toFixed(4))
+  };
+  return hedgeIndex >= 0 ? legs.map((leg, i) => (i === hedgeIndex ? sized : leg)) : [...legs, sized];
+}
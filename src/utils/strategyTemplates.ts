@@ -0,0 +1,174 @@
+/**
+ * Strategy Templates
+ *
+ * This utility catalogues named option strategies. Each template places its strikes
+ * relative to the current spot price, using a width and wing distance as percentages
+ * of spot and, for ratio spreads, the number of options sold per option bought. Each
+ * also explains the market view the strategy expresses.
+ */
+
+import { StrategyLeg } from "./strategy";
+
+export type TemplateParameterKey = "width" | "wing" | "ratio";
+export type TemplateParameters = Record<TemplateParameterKey, number>;
+
+// Leg of a template, before an expiry and volatility are chosen
+export type TemplateLeg = Pick<StrategyLeg, "side" | "quantity" | "type" | "strikePrice">;
+
+export interface TemplateParameterField {
+  key: TemplateParameterKey;
+  label: string;
+  step: number;
+  min: number;
+}
+
+export interface StrategyTemplate {
+  id: string;
+  name: string;
+  view: string;                         // Market view the strategy expresses
+  parameters: TemplateParameterField[];
+  legs: (spotPrice: number, params: TemplateParameters) => TemplateLeg[];
+}
+
+export const defaultTemplateParameters: TemplateParameters = {
+  width: 10,
+  wing: 5,
+  ratio: 2
+};
+
+const widthField: TemplateParameterField = { key: "width", label: "Width (% of spot)", step: 1, min: 0 };
+const wingField: TemplateParameterField = { key: "wing", label: "Wing Distance (% of spot)", step: 1, min: 0.1 };
+const ratioField: TemplateParameterField = { key: "ratio", label: "Ratio (sold per bought)", step: 1, min: 1 };
+
+// Round a strike to about three significant figures of the spot price
+export function roundStrike(strike: number, spotPrice: number): number {
+  const increment = Math.pow(10, Math.floor(Math.log10(Math.max(spotPrice, 1e-6))) - 2);
+  return Number((Math.round(strike / increment) * increment).toFixed(8));
+}
+
+// Strike a percentage of spot away from it, rounded
+const strikeAt = (spotPrice: number, percent: number) => roundStrike(spotPrice * (1 + percent / 100), spotPrice);
+
+const leg = (side: TemplateLeg["side"], type: TemplateLeg["type"], strikePrice: number, quantity: number = 1): TemplateLeg => ({
+  side,
+  quantity,
+  type,
+  strikePrice
+});
+
+export const strategyTemplates: StrategyTemplate[] = [
+  {
+    id: "long-straddle",
+    name: "Long Straddle",
+    view: "Expects a big move but not its direction, or a rise in volatility. Loses to time decay if the price stays put.",
+    parameters: [],
+    legs: (spot) => [leg("long", "call", strikeAt(spot, 0)), leg("long", "put", strikeAt(spot, 0))]
+  },
+  {
+    id: "short-straddle",
+    name: "Short Straddle",
+    view: "Expects the price to stay near spot and volatility to fall. Collects time decay, with unlimited risk on a big move.",
+    parameters: [],
+    legs: (spot) => [leg("short", "call", strikeAt(spot, 0)), leg("short", "put", strikeAt(spot, 0))]
+  },
+  {
+    id: "long-strangle",
+    name: "Long Strangle",
+    view: "Expects a very big move in either direction. Cheaper than a straddle, but the price must travel further to profit.",
+    parameters: [widthField],
+    legs: (spot, { width }) => [leg("long", "call", strikeAt(spot, width)), leg("long", "put", strikeAt(spot, -width))]
+  },
+  {
+    id: "short-strangle",
+    name: "Short Strangle",
+    view: "Expects the price to stay within a range. Collects premium while it does, with unlimited risk outside it.",
+    parameters: [widthField],
+    legs: (spot, { width }) => [leg("short", "call", strikeAt(spot, width)), leg("short", "put", strikeAt(spot, -width))]
+  },
+  {
+    id: "iron-condor",
+    name: "Iron Condor",
+    view: "Expects the price to stay within a range, like a short strangle, but with wings that cap the loss on a breakout.",
+    parameters: [widthField, wingField],
+    legs: (spot, { width, wing }) => [
+      leg("long", "put", strikeAt(spot, -width - wing)),
+      leg("short", "put", strikeAt(spot, -width)),
+      leg("short", "call", strikeAt(spot, width)),
+      leg("long", "call", strikeAt(spot, width + wing))
+    ]
+  },
+  {
+    id: "long-call-butterfly",
+    name: "Long Call Butterfly",
+    view: "Expects the price to settle close to spot at expiry. Cheap and limited in risk, with the most profit at the middle strike.",
+    parameters: [wingField],
+    legs: (spot, { wing }) => [
+      leg("long", "call", strikeAt(spot, -wing)),
+      leg("short", "call", strikeAt(spot, 0), 2),
+      leg("long", "call", strikeAt(spot, wing))
+    ]
+  },
+  {
+    id: "bull-call-spread",
+    name: "Bull Call Spread",
+    view: "Expects a moderate rise. Selling the upper call cheapens the position but caps the profit at the upper strike.",
+    parameters: [widthField],
+    legs: (spot, { width }) => [leg("long", "call", strikeAt(spot, 0)), leg("short", "call", strikeAt(spot, width))]
+  },
+  {
+    id: "bear-put-spread",
+    name: "Bear Put Spread",
+    view: "Expects a moderate fall. Selling the lower put cheapens the position but caps the profit at the lower strike.",
+    parameters: [widthField],
+    legs: (spot, { width }) => [leg("long", "put", strikeAt(spot, 0)), leg("short", "put", strikeAt(spot, -width))]
+  },
+  {
+    id: "call-ratio-spread",
+    name: "Call Ratio Spread",
+    view: "Expects a modest rise to the upper strike but not beyond. Often opened for a credit, with unlimited risk on a rally.",
+    parameters: [widthField, ratioField],
+    legs: (spot, { width, ratio }) => [
+      leg("long", "call", strikeAt(spot, 0)),
+      leg("short", "call", strikeAt(spot, width), ratio)
+    ]
+  },
+  {
+    id: "put-ratio-spread",
+    name: "Put Ratio Spread",
+    view: "Expects a modest fall to the lower strike but not beyond. Often opened for a credit, with large risk on a crash.",
+    parameters: [widthField, ratioField],
+    legs: (spot, { width, ratio }) => [
+      leg("long", "put", strikeAt(spot, 0)),
+      leg("short", "put", strikeAt(spot, -width), ratio)
+    ]
+  },
+  {
+    id: "covered-call",
+    name: "Covered Call",
+    view: "Holds the asset and expects it to drift sideways or slowly higher. The call premium adds income but caps gains above the strike.",
+    parameters: [widthField],
+    legs: (spot, { width }) => [leg("long", "spot", spot), leg("short", "call", strikeAt(spot, width))]
+  },
+  {
+    id: "protective-put",
+    name: "Protective Put",
+    view: "Holds the asset and wants insurance against a fall. The put limits the loss below its strike for the cost of its premium.",
+    parameters: [widthField],
+    legs: (spot, { width }) => [leg("long", "spot", spot), leg("long", "put", strikeAt(spot, -width))]
+  },
+  {
+    id: "collar",
+    name: "Collar",
+    view: "Holds the asset and protects it against a fall by buying a put, paid for by selling a call that gives up gains above it.",
+    parameters: [widthField],
+    legs: (spot, { width }) => [
+      leg("long", "spot", spot),
+      leg("long", "put", strikeAt(spot, -width)),
+      leg("short", "call", strikeAt(spot, width))
+    ]
+  }
+];
+
+export function getStrategyTemplate(id: string): StrategyTemplate | undefined {
+  return strategyTemplates.find((template) => template.id === id);
+}
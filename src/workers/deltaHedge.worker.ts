@@ -0,0 +1,17 @@
+/// <reference lib="webworker" />
+import {
+  HedgeSimulationRequest,
+  HedgeSimulationResponse,
+  simulateDeltaHedging,
+} from "@/utils/deltaHedging";
+
+// Runs the hedging simulation off the main thread so the calculator stays responsive
+self.onmessage = (event: MessageEvent<HedgeSimulationRequest>) => {
+  let response: HedgeSimulationResponse;
+  try {
+    response = { result: simulateDeltaHedging(event.data.inputs, event.data.settings) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,17 @@
+/// <reference lib="webworker" />
+import {
+  calculateMonteCarloPremium,
+  MonteCarloRequest,
+  MonteCarloResponse,
+} from "@/utils/monteCarlo";
+
+// Runs Monte Carlo pricing off the main thread so the calculator stays responsive
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  let response: MonteCarloResponse;
+  try {
+    response = { result: calculateMonteCarloPremium(event.data.inputs, event.data.settings) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};